@@ -0,0 +1,147 @@
+// Service worker: offline cache for the app shell and background delivery of study reminders.
+// The page sends the upcoming reminders (see src/pwa.ts); this file only decides how to deliver them.
+
+const CACHE = "itf-theory-v1";
+const SHELL = ["/", "/manifest.webmanifest", "/favicon.svg", "/icon.svg"];
+const PLAN_URL = "/__reminder-plan.json";
+const REMINDER_TAG = "itf-reminder";
+const PERIODIC_TAG = "itf-reminders";
+// A reminder older than this when we get a chance to show it is skipped rather than shown late.
+const MAX_LATE_MS = 3 * 60 * 60 * 1000;
+const QUICK_QUIZ_SIZE = 5;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Pages: network first so deploys show up, cached shell when offline. Built assets are content-hashed: cache first.
+self.addEventListener("fetch", (event) => {
+  const req = event.request;
+  const url = new URL(req.url);
+  if (req.method !== "GET" || url.origin !== self.location.origin || url.pathname === PLAN_URL) return;
+
+  if (req.mode === "navigate") {
+    event.respondWith(
+      fetch(req)
+        .then((res) => {
+          // Only a good page replaces the cached shell; a 404 or 500 must not be served offline as "/".
+          if (res.ok) {
+            const copy = res.clone();
+            caches.open(CACHE).then((cache) => cache.put("/", copy));
+          }
+          return res;
+        })
+        .catch(() => caches.match("/"))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(req).then(
+      (hit) =>
+        hit ||
+        fetch(req).then((res) => {
+          if (res.ok) {
+            const copy = res.clone();
+            caches.open(CACHE).then((cache) => cache.put(req, copy));
+          }
+          return res;
+        })
+    )
+  );
+});
+
+async function loadPlan() {
+  const res = await (await caches.open(CACHE)).match(PLAN_URL);
+  return res ? res.json() : null;
+}
+
+async function savePlan(plan) {
+  const cache = await caches.open(CACHE);
+  await cache.put(PLAN_URL, new Response(JSON.stringify(plan), { headers: { "Content-Type": "application/json" } }));
+}
+
+function notificationOptions(entry) {
+  return {
+    body: entry.body,
+    tag: `${REMINDER_TAG}-${entry.at}`, // one per entry: a shared tag would let each reminder replace the last
+    icon: "/icon.svg",
+    timestamp: entry.at,
+    actions: [
+      { action: "quiz", title: `Start ${QUICK_QUIZ_SIZE}-question quiz` },
+      { action: "open", title: "Open app" },
+    ],
+  };
+}
+
+// Notification Triggers: hand every upcoming reminder to the OS so nothing depends on this worker waking up.
+// Replaces the scheduled reminders. Only ones still waiting for their trigger are cancelled; a reminder
+// already on screen stays there.
+async function scheduleTriggers(plan) {
+  const now = Date.now();
+  const all = await self.registration.getNotifications({ includeTriggered: true });
+  all
+    .filter((n) => n.tag.startsWith(`${REMINDER_TAG}-`) && (n.showTrigger?.timestamp ?? n.timestamp) > now)
+    .forEach((n) => n.close());
+  if (!plan.enabled) return;
+  for (const entry of plan.entries) {
+    if (entry.at <= now) continue;
+    await self.registration.showNotification(plan.title, { ...notificationOptions(entry), showTrigger: new TimestampTrigger(entry.at) });
+  }
+}
+
+// Shows the most recent reminder that is due and not yet shown. Used by periodic sync and by open pages.
+async function fireDue() {
+  const plan = await loadPlan();
+  if (!plan || !plan.enabled) return;
+  const now = Date.now();
+  const due = plan.entries.filter((e) => e.at <= now && e.at > (plan.lastFired || 0));
+  if (!due.length) return;
+  const entry = due[due.length - 1];
+  await savePlan({ ...plan, lastFired: entry.at });
+  if (now - entry.at > MAX_LATE_MS) return;
+  await self.registration.showNotification(plan.title, notificationOptions(entry));
+}
+
+self.addEventListener("message", (event) => {
+  const msg = event.data || {};
+  if (msg.type === "reminders") {
+    event.waitUntil(
+      loadPlan().then(async (old) => {
+        // Keep lastFired so re-sending the same plan doesn't repeat a reminder already shown.
+        const plan = { ...msg.plan, lastFired: old?.lastFired ?? Date.now() };
+        await savePlan(plan);
+        if ("showTrigger" in Notification.prototype) await scheduleTriggers(plan);
+      })
+    );
+  } else if (msg.type === "fire-due") {
+    event.waitUntil(fireDue());
+  }
+});
+
+self.addEventListener("periodicsync", (event) => {
+  if (event.tag === PERIODIC_TAG) event.waitUntil(fireDue());
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const quiz = event.action === "quiz";
+  const url = quiz ? `/?quiz=${QUICK_QUIZ_SIZE}` : "/";
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const open = windows[0];
+      if (!open) return self.clients.openWindow(url);
+      if (quiz) open.postMessage({ type: "start-quiz", count: QUICK_QUIZ_SIZE });
+      return open.focus();
+    })
+  );
+});
@@ -1,6 +1,46 @@
 // @ts-nocheck
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import "./App.css";
+import { addDays, dayKey } from "./dates";
+import {
+  QUICK_QUIZ_SIZE,
+  onQuizRequest,
+  scheduleReminders,
+  serviceWorkerError,
+  showDueReminder,
+  showTestNotification,
+  type ReminderDelivery,
+  type ReminderEntry,
+  type ReminderPlan,
+} from "./pwa";
+import { nextReminderDelayMs, reminderSchedule, type ReminderContext } from "./reminders";
+import {
+  audioAction,
+  browserSpeech,
+  playAudioQuestion,
+  type AudioAction,
+  type AudioPhase,
+  type AudioRun,
+  type AudioStyle,
+  type SpeechLayer,
+  type VoiceCommand,
+} from "./speech";
+import { DEFAULT_PROFILE_ID, DEFAULT_PROFILE_NAME, STORE_KEYS, onStorageError, openStore, profileKey, reportStorageError, type AppStore } from "./storage";
+
+type ListAnswer = {
+  items: string[]; // accepted items; "a|b" lists accepted spellings of one item
+  minRequired: number; // "name 3 of…"
+  ordered: boolean; // e.g. the tenets must come in sequence
+};
+
+type ChoiceAnswer = {
+  correct: string;
+  distractors?: string[]; // hand-authored wrong options
+  autoDistractors?: boolean; // top up wrong options from the answers of other questions sharing a tag
+};
+
+// A picture stored inline with the bank, so it travels with JSON exports and backups.
+type Attachment = { name: string; dataUrl: string; alt?: string };
 
 type Question = {
   id: string;
@@ -8,6 +48,26 @@ type Question = {
   modelAnswer: string;
   tags?: string[];
   sourceNote?: string;
+  keywords?: string[]; // required terms for typed grading; "a|b" lists accepted alternatives
+  kind?: "open" | "list" | "choice" | "truefalse";
+  list?: ListAnswer;
+  choice?: ChoiceAnswer;
+  truth?: boolean; // for "truefalse": whether the prompt's statement is true
+  grades?: string[]; // Grade ids the question is asked at; untagged questions apply to every grade
+  promptImages?: Attachment[]; // shown with the prompt, e.g. "Name this stance." with a photo
+  answerImages?: Attachment[]; // shown with the model answer
+};
+
+type AttachmentField = "promptImages" | "answerImages";
+
+// One step of the syllabus: what a student must know to be graded *to* this grade.
+type Grade = {
+  id: string;
+  label: string;
+  rank: number; // 10th kup = 1, rising through the dan grades
+  patterns: string[];
+  terminology: string[];
+  theory: string[]; // question tags covering this grade's theory topics
 };
 
 type HistoryEntry = {
@@ -16,409 +76,3466 @@ type HistoryEntry = {
   correct: boolean;
   at: string;
   tags: string[];
+  // Present when the attempt was auto-graded from a typed answer.
+  response?: string;
+  score?: number; // 0..1 share of required terms hit
+  hits?: string[];
+  misses?: string[];
+  ms?: number; // time taken to answer, when timed (exam mode)
+  timedOut?: boolean;
+  examId?: string; // ExamSession.id for attempts made in exam mode
+  profileId?: string;
+};
+
+// A student sharing the device. History, settings, schedule and exam sessions are per profile; the bank is shared.
+type Profile = { id: string; name: string; createdAt: string };
+
+type GradeResult = {
+  score: number;
+  hits: string[];
+  misses: string[];
+  correct: boolean;
+};
+
+type ExamAnswer = { qid: string; correct: boolean; grade?: GradeResult; ms?: number; timedOut?: boolean };
+
+type AttemptDetails = { response?: string; grade?: GradeResult; ms?: number; timedOut?: boolean; examId?: string };
+
+// One exam paper: what was asked, what was answered, and how it ended.
+type ExamSession = {
+  id: string;
+  startedAt: string;
+  finishedAt?: string;
+  abandoned?: boolean;
+  filterTags: string[];
+  qids: string[];
+  answers: ExamAnswer[];
+  index: number; // question the paper is on; equals qids.length once finished
+  score?: { correct: number; total: number; pct: number };
+  origin?: { kind: "retake" | "missed"; sessionId: string };
+  blueprintId?: string;
+  paper?: boolean; // printed mock exam; stays unfinished until the instructor enters the marks
+};
+
+// Spaced-repetition state per question id (SM-2 style).
+type ReviewCard = {
+  qid: string;
+  due: string; // ISO timestamp
+  interval: number; // days
+  ease: number;
+  reps: number; // consecutive correct reviews
+  lapses: number;
+  lastReviewed: string;
+};
+
+type Schedule = Record<string, ReviewCard>;
+
+type BlueprintQuota = { tag: string; min: number; max: number };
+
+// A saved recipe for an exam paper: per-tag quotas plus an optional pull toward weak tags.
+type ExamBlueprint = {
+  id: string;
+  name: string;
+  length: number;
+  quotas: BlueprintQuota[];
+  weakWeighting: number; // 0 = ignore stats, 1 = strongly favour weak tags
 };
 
+type MasteryLevel = "new" | "learning" | "shaky" | "mastered";
+type Mastery = { score: number; level: MasteryLevel; attempts: number; streak: number };
+
 type Settings = {
   reminderEnabled: boolean;
-  reminderTime: string; // "HH:MM"
+  reminderTimes: string[]; // "HH:MM", one reminder per entry
   reminderDays: number[]; // 0=Sun..6=Sat
+  skipWhenGoalMet: boolean;
+  streakNudge: boolean;
+  streakNudgeTime: string; // "HH:MM"
+  gradingDate: string; // "YYYY-MM-DD"; "" = not booked
+  glossaryCards: boolean; // mix terminology flashcards into practice and exams
+  patternCards: boolean; // mix generated pattern (tul) questions into practice and exams
   reminderMessage: string;
   dailyGoal: number;
   testLength: number;
   theme: "light" | "dark";
+  answerMode: "self" | "typed";
+  typedPassPct: number; // share of required terms needed to count as correct
+  synonyms: Record<string, string[]>; // term -> accepted alternatives, applied both ways
+  questionTimeLimitSec: number; // 0 = untimed
+  examTimeLimitMin: number; // 0 = untimed
+  targetGrade: string; // Grade id; "" = no grade scoping
+  blueprintId: string; // ExamBlueprint id; "" = flat shuffle of testLength questions
+  staleDays: number; // "not seen in N days" drill
+  audioPauseSec: number; // audio drill: thinking time between the prompt and the model answer
 };
 
-const LS_KEYS = {
-  BANK: "itf_bank_v2",
-  HISTORY: "itf_history_v2",
-  SETTINGS: "itf_settings_v2",
-} as const;
-
 const DEFAULT_SETTINGS: Settings = {
   reminderEnabled: false,
-  reminderTime: "19:30",
+  reminderTimes: ["19:30"],
   reminderDays: [1, 2, 3, 4, 5, 6, 0],
+  skipWhenGoalMet: true,
+  streakNudge: true,
+  streakNudgeTime: "21:30",
+  gradingDate: "",
+  glossaryCards: true,
+  patternCards: true,
   reminderMessage: "It’s time for your Taekwon-Do theory mock test.",
   dailyGoal: 10,
   testLength: 10,
   theme: "light",
+  answerMode: "self",
+  typedPassPct: 60,
+  synonyms: {
+    equilibrium: ["balance"],
+    "self-control": ["self discipline"],
+    "breath control": ["breathing"],
+    "reaction force": ["reaction"],
+  },
+  questionTimeLimitSec: 0,
+  examTimeLimitMin: 0,
+  targetGrade: "2dan",
+  blueprintId: "",
+  staleDays: 14,
+  audioPauseSec: 6,
 };
 
-function uid(): string {
-  return Math.random().toString(16).slice(2) + Date.now().toString(16);
-}
-
-function loadJSON<T>(key: string, fallback: T): T {
-  try {
-    const raw = localStorage.getItem(key);
-    if (!raw) return fallback;
-    return JSON.parse(raw) as T;
-  } catch {
-    return fallback;
-  }
-}
-
-function saveJSON(key: string, value: unknown): void {
-  localStorage.setItem(key, JSON.stringify(value));
+// Fills fields added since the settings were saved. Older saves had a single reminderTime.
+function withDefaultSettings(stored: Partial<Settings> & { reminderTime?: string }): Settings {
+  const { reminderTime, ...rest } = stored;
+  // Saves from before the generated cards existed keep practising their own bank; the cards can be
+  // switched on in settings. New installs start with them on.
+  const existing = Object.keys(stored).length > 0;
+  return {
+    ...DEFAULT_SETTINGS,
+    ...rest,
+    reminderTimes: rest.reminderTimes ?? (reminderTime ? [reminderTime] : DEFAULT_SETTINGS.reminderTimes),
+    glossaryCards: rest.glossaryCards ?? (existing ? false : DEFAULT_SETTINGS.glossaryCards),
+    patternCards: rest.patternCards ?? (existing ? false : DEFAULT_SETTINGS.patternCards),
+  };
 }
 
-function clamp(n: number, min: number, max: number): number {
-  return Math.max(min, Math.min(max, n));
-}
+const DEFAULT_BLUEPRINTS: ExamBlueprint[] = [
+  {
+    id: "bp_grading_mix",
+    name: "Grading mix",
+    length: 10,
+    quotas: [
+      { tag: "patterns", min: 3, max: 4 },
+      { tag: "theory-of-power", min: 2, max: 3 },
+      { tag: "history", min: 2, max: 3 },
+      { tag: "basics", min: 1, max: 3 },
+    ],
+    weakWeighting: 0,
+  },
+];
 
-function dayName(d: number): string {
-  return ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"][d] ?? "";
-}
+const CURRICULUM: Grade[] = [
+  { id: "10kup", label: "10th kup", rank: 1, patterns: [], terminology: [], theory: [] },
+  {
+    id: "9kup",
+    label: "9th kup",
+    rank: 2,
+    patterns: ["Saju Jirugi", "Saju Makgi"],
+    terminology: ["Charyot", "Kyong-ye", "Junbi", "Sijak", "Goman", "Dojang", "Dobok"],
+    theory: ["tenets", "basics"],
+  },
+  {
+    id: "8kup",
+    label: "8th kup",
+    rank: 3,
+    patterns: ["Chon-Ji"],
+    terminology: ["Ap", "Dwit", "Kaunde", "Najunde", "Nopunde", "Jirugi", "Makgi"],
+    theory: ["patterns"],
+  },
+  {
+    id: "7kup",
+    label: "7th kup",
+    rank: 4,
+    patterns: ["Dan-Gun"],
+    terminology: ["Ap chagi", "Gunnun sogi", "Niunja sogi", "Annun sogi", "Palmok", "Sonkal"],
+    theory: [],
+  },
+  {
+    id: "6kup",
+    label: "6th kup",
+    rank: 5,
+    patterns: ["Do-San"],
+    terminology: ["Yop chagi", "Dollyo chagi", "Sonkut", "Dung joomuk", "Ap joomuk"],
+    theory: ["history"],
+  },
+  {
+    id: "5kup",
+    label: "5th kup",
+    rank: 6,
+    patterns: ["Won-Hyo"],
+    terminology: ["Goburyo sogi", "Gojung sogi"],
+    theory: ["theory-of-power"],
+  },
+  { id: "4kup", label: "4th kup", rank: 7, patterns: ["Yul-Gok"], terminology: ["Kyocha sogi", "Moa sogi"], theory: [] },
+  { id: "3kup", label: "3rd kup", rank: 8, patterns: ["Joong-Gun"], terminology: ["Twimyo", "Bandae"], theory: ["technique"] },
+  { id: "2kup", label: "2nd kup", rank: 9, patterns: ["Toi-Gye"], terminology: ["Dwitbal sogi"], theory: [] },
+  { id: "1kup", label: "1st kup", rank: 10, patterns: ["Hwa-Rang"], terminology: [], theory: [] },
+  { id: "1dan", label: "1st Dan", rank: 11, patterns: ["Choong-Moo"], terminology: ["Boosabum", "Sabum"], theory: [] },
+  { id: "2dan", label: "2nd Dan", rank: 12, patterns: ["Kwang-Gae", "Po-Eun", "Ge-Baek"], terminology: [], theory: [] },
+  { id: "3dan", label: "3rd Dan", rank: 13, patterns: ["Eui-Am", "Choong-Jang", "Juche"], terminology: [], theory: [] },
+  { id: "4dan", label: "4th Dan", rank: 14, patterns: ["Sam-Il", "Yoo-Sin", "Choi-Yong"], terminology: [], theory: [] },
+  { id: "5dan", label: "5th Dan", rank: 15, patterns: ["Yon-Gae", "Ul-Ji", "Moon-Moo"], terminology: [], theory: [] },
+  { id: "6dan", label: "6th Dan", rank: 16, patterns: ["So-San", "Se-Jong"], terminology: [], theory: [] },
+  { id: "7dan", label: "7th Dan", rank: 17, patterns: ["Tong-Il"], terminology: [], theory: [] },
+];
 
-function nextReminderDelayMs(settings: Settings) {
-  const now = new Date();
-  const [hh, mm] = settings.reminderTime.split(":").map((x) => parseInt(x, 10));
-  const candidate = new Date(now);
-  candidate.setHours(hh, mm, 0, 0);
+// Korean terminology. `korean` is the romanisation the syllabus uses; `spellings` are other accepted ones.
+type GlossaryCategory = "command" | "place" | "direction" | "section" | "stance" | "block" | "strike" | "kick" | "tool" | "movement" | "rank" | "count";
 
-  const allowed = new Set(settings.reminderDays);
+type GlossaryTerm = {
+  id: string;
+  korean: string;
+  spellings: string[];
+  hangul: string;
+  english: string;
+  englishAlt?: string[];
+  category: GlossaryCategory;
+};
 
-  for (let i = 0; i < 8; i++) {
-    const okDay = allowed.has(candidate.getDay());
-    const inFuture = candidate.getTime() > now.getTime();
-    if (okDay && inFuture) return candidate.getTime() - now.getTime();
-    candidate.setDate(candidate.getDate() + 1);
-    candidate.setHours(hh, mm, 0, 0);
-  }
-  return 24 * 60 * 60 * 1000;
-}
+const BUILTIN_GLOSSARY: GlossaryTerm[] = [
+  { id: "charyot", korean: "Charyot", spellings: ["charyut", "charyeot"], hangul: "차렷", english: "Attention", category: "command" },
+  { id: "kyong_ye", korean: "Kyong-ye", spellings: ["kyung ye", "kyung yet", "gyeongnye"], hangul: "경례", english: "Bow", englishAlt: ["salute"], category: "command" },
+  { id: "junbi", korean: "Junbi", spellings: ["joonbi", "chunbi"], hangul: "준비", english: "Ready", category: "command" },
+  { id: "sijak", korean: "Sijak", spellings: ["shijak", "si jak"], hangul: "시작", english: "Begin", englishAlt: ["start"], category: "command" },
+  { id: "goman", korean: "Goman", spellings: ["geuman", "kuman", "guman"], hangul: "그만", english: "Stop", englishAlt: ["finish", "end"], category: "command" },
+  { id: "haessan", korean: "Haessan", spellings: ["hae san", "haesan"], hangul: "해산", english: "Dismiss", category: "command" },
+  { id: "kihap", korean: "Kihap", spellings: ["ki hap", "gihap"], hangul: "기합", english: "Yell", englishAlt: ["shout"], category: "command" },
+  { id: "dojang", korean: "Dojang", spellings: ["do jang"], hangul: "도장", english: "Training hall", englishAlt: ["gym", "training place"], category: "place" },
+  { id: "dobok", korean: "Dobok", spellings: ["do bok"], hangul: "도복", english: "Training suit", englishAlt: ["uniform"], category: "tool" },
+  { id: "ti", korean: "Ti", spellings: ["tti", "dhee"], hangul: "띠", english: "Belt", category: "tool" },
+  { id: "ap", korean: "Ap", spellings: ["ahp"], hangul: "앞", english: "Front", englishAlt: ["forward"], category: "direction" },
+  { id: "dwit", korean: "Dwit", spellings: ["dwi", "twit"], hangul: "뒤", english: "Back", englishAlt: ["rear", "backward"], category: "direction" },
+  { id: "bandae", korean: "Bandae", spellings: ["bande", "pandae"], hangul: "반대", english: "Reverse", englishAlt: ["opposite"], category: "direction" },
+  { id: "nopunde", korean: "Nopunde", spellings: ["nopeunde", "nopundae"], hangul: "높은데", english: "High section", category: "section" },
+  { id: "kaunde", korean: "Kaunde", spellings: ["gaunde", "kaundae"], hangul: "가운데", english: "Middle section", category: "section" },
+  { id: "najunde", korean: "Najunde", spellings: ["najeunde", "najundae"], hangul: "낮은데", english: "Low section", category: "section" },
+  { id: "gunnun_sogi", korean: "Gunnun sogi", spellings: ["gunnun so gi", "geonneun seogi", "gunnan sogi"], hangul: "걷는 서기", english: "Walking stance", category: "stance" },
+  { id: "niunja_sogi", korean: "Niunja sogi", spellings: ["niunja so gi", "nieunja seogi", "niunja sugi"], hangul: "니은자 서기", english: "L-stance", category: "stance" },
+  { id: "annun_sogi", korean: "Annun sogi", spellings: ["anun sogi", "anjeun seogi", "annun so gi"], hangul: "앉은 서기", english: "Sitting stance", category: "stance" },
+  { id: "goburyo_sogi", korean: "Goburyo sogi", spellings: ["guburyo sogi", "gubureo seogi", "goburyeo seogi"], hangul: "구부려 서기", english: "Bending stance", englishAlt: ["bending ready stance"], category: "stance" },
+  { id: "gojung_sogi", korean: "Gojung sogi", spellings: ["gojeong seogi", "kojung sogi"], hangul: "고정 서기", english: "Fixed stance", category: "stance" },
+  { id: "kyocha_sogi", korean: "Kyocha sogi", spellings: ["gyocha seogi", "kyocha so gi"], hangul: "교차 서기", english: "X-stance", englishAlt: ["cross stance"], category: "stance" },
+  { id: "moa_sogi", korean: "Moa sogi", spellings: ["moa seogi", "moa so gi"], hangul: "모아 서기", english: "Close stance", category: "stance" },
+  { id: "dwitbal_sogi", korean: "Dwitbal sogi", spellings: ["dwit bal sogi", "dwitbal seogi"], hangul: "뒷발 서기", english: "Rear foot stance", category: "stance" },
+  { id: "makgi", korean: "Makgi", spellings: ["maki", "makki"], hangul: "막기", english: "Block", category: "block" },
+  { id: "palmok", korean: "Palmok", spellings: ["pal mok"], hangul: "팔목", english: "Forearm", category: "block" },
+  { id: "sonkal", korean: "Sonkal", spellings: ["son kal"], hangul: "손칼", english: "Knife-hand", englishAlt: ["knife hand"], category: "block" },
+  { id: "jirugi", korean: "Jirugi", spellings: ["jireugi", "chirugi", "jiruki"], hangul: "지르기", english: "Punch", category: "strike" },
+  { id: "taerigi", korean: "Taerigi", spellings: ["ttaerigi", "taeregi"], hangul: "때리기", english: "Strike", category: "strike" },
+  { id: "tulgi", korean: "Tulgi", spellings: ["ttulgi", "tulki"], hangul: "뚫기", english: "Thrust", category: "strike" },
+  { id: "ap_joomuk", korean: "Ap joomuk", spellings: ["ap jumeok", "ap jumok", "ap chumok"], hangul: "앞주먹", english: "Forefist", englishAlt: ["fore fist"], category: "strike" },
+  { id: "dung_joomuk", korean: "Dung joomuk", spellings: ["deung jumeok", "dung jumok"], hangul: "등주먹", english: "Backfist", englishAlt: ["back fist"], category: "strike" },
+  { id: "sonkut", korean: "Sonkut", spellings: ["son kut", "sonkkeut"], hangul: "손끝", english: "Fingertip", englishAlt: ["finger tip"], category: "strike" },
+  { id: "ap_chagi", korean: "Ap chagi", spellings: ["ap chaki", "apchagi"], hangul: "앞차기", english: "Front kick", category: "kick" },
+  { id: "yop_chagi", korean: "Yop chagi", spellings: ["yeop chagi", "yup chagi"], hangul: "옆차기", english: "Side kick", category: "kick" },
+  { id: "dollyo_chagi", korean: "Dollyo chagi", spellings: ["dolyo chagi", "dollyeo chagi", "tollyo chagi"], hangul: "돌려차기", english: "Turning kick", englishAlt: ["roundhouse kick"], category: "kick" },
+  { id: "dwit_chagi", korean: "Dwit chagi", spellings: ["dwi chagi", "dwitchagi"], hangul: "뒤차기", english: "Back kick", category: "kick" },
+  { id: "naeryo_chagi", korean: "Naeryo chagi", spellings: ["naeryeo chagi", "nairyo chagi"], hangul: "내려차기", english: "Downward kick", englishAlt: ["axe kick"], category: "kick" },
+  { id: "twimyo", korean: "Twimyo", spellings: ["twimyeo", "ttwimyo"], hangul: "뛰며", english: "Flying", englishAlt: ["jumping"], category: "movement" },
+  { id: "sabum", korean: "Sabum", spellings: ["sabeom", "sabom"], hangul: "사범", english: "Instructor", category: "rank" },
+  { id: "boosabum", korean: "Boosabum", spellings: ["busabeom", "busabum"], hangul: "부사범", english: "Assistant instructor", category: "rank" },
+  { id: "hana", korean: "Hana", spellings: ["hanna"], hangul: "하나", english: "One", category: "count" },
+  { id: "dul", korean: "Dul", spellings: ["tul", "dool"], hangul: "둘", english: "Two", category: "count" },
+  { id: "set", korean: "Set", spellings: ["seht", "seth"], hangul: "셋", english: "Three", category: "count" },
+  { id: "net", korean: "Net", spellings: ["neht", "neth"], hangul: "넷", english: "Four", category: "count" },
+  { id: "dasot", korean: "Dasot", spellings: ["daseot", "tasot"], hangul: "다섯", english: "Five", category: "count" },
+  { id: "yosot", korean: "Yosot", spellings: ["yeoseot", "yasot"], hangul: "여섯", english: "Six", category: "count" },
+  { id: "ilgop", korean: "Ilgop", spellings: ["ilgob", "ilgup"], hangul: "일곱", english: "Seven", category: "count" },
+  { id: "yodul", korean: "Yodul", spellings: ["yeodeol", "yodol"], hangul: "여덟", english: "Eight", category: "count" },
+  { id: "ahop", korean: "Ahop", spellings: ["ahob", "ahope"], hangul: "아홉", english: "Nine", category: "count" },
+  { id: "yol", korean: "Yol", spellings: ["yeol", "yul"], hangul: "열", english: "Ten", category: "count" },
+];
 
-function shuffle<T>(arr: T[]): T[] {
-  const a = [...arr];
-  for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [a[i], a[j]] = [a[j], a[i]];
-  }
-  return a;
-}
+// ITF patterns (tul). `techniques` lists a few notable techniques for browsing; it is not an
+// exhaustive breakdown of each pattern, so nothing is graded or checked against it.
+type PatternInfo = {
+  name: string;
+  moves: number;
+  meaning: string;
+  meaningKeywords: string[]; // required terms when the meaning is typed; "a|b" lists alternatives
+  readyPosture?: string;
+  techniques: string[]; // empty where not recorded yet
+};
 
-// Seeded from your sheets; add more via Edit/paste JSON in the app.
-const BUILTIN_QUESTION_BANK: Question[] = [
+const BUILTIN_PATTERNS: PatternInfo[] = [
   {
-    id: "q_tenets",
-    prompt: "What are the five tenets of Taekwon-Do?",
-    modelAnswer: "Courtesy, Integrity, Perseverance, Self-Control, Indomitable Spirit.",
-    tags: ["tenets", "basics"],
-    sourceNote: "OMA theory sheet",
+    name: "Chon-Ji",
+    moves: 19,
+    meaning: "Heaven and Earth: the creation of the world and the beginning of human history.",
+    meaningKeywords: ["heaven", "earth"],
+    readyPosture: "Parallel ready stance",
+    techniques: ["walking stance", "L-stance", "forearm block", "middle punch"],
   },
   {
-    id: "q_theory_power",
-    prompt: "What is the Theory of Power in ITF Taekwon-Do?",
-    modelAnswer:
-      "The Theory of Power explains how maximum force is generated. It consists of six factors: reaction force, concentration, equilibrium (balance), breath control, speed, and mass.",
-    tags: ["theory-of-power", "basics"],
-    sourceNote: "OMA theory sheet",
+    name: "Dan-Gun",
+    moves: 21,
+    meaning: "Named after the holy Dan-Gun, legendary founder of Korea in 2333 BC.",
+    meaningKeywords: ["dan gun|dangun", "founder|founded"],
+    readyPosture: "Parallel ready stance",
+    techniques: ["knife-hand strike", "high punch", "twin forearm block"],
   },
   {
-    id: "q_pattern_def",
-    prompt: "What is a pattern (tul)?",
-    modelAnswer:
-      "A pattern is a sequence of fundamental movements performed against imaginary opponents. Patterns teach correct technique, balance, power, breathing, and mental focus, and help preserve Taekwon-Do history.",
-    tags: ["patterns", "basics"],
-    sourceNote: "OMA theory sheet",
+    name: "Do-San",
+    moves: 24,
+    meaning: "Pseudonym of the patriot Ahn Chang-Ho, who devoted his life to Korean education and independence.",
+    meaningKeywords: ["ahn chang ho|an chang ho", "patriot|education|independence"],
+    readyPosture: "Parallel ready stance",
+    techniques: ["backfist", "release", "straight fingertip thrust", "wedging block"],
   },
   {
-    id: "q_itf_founded",
-    prompt: "Who founded the ITF and when?",
-    modelAnswer: "The ITF was founded in 1966 by General Choi Hong Hi.",
-    tags: ["history"],
-    sourceNote: "OMA theory sheet",
+    name: "Won-Hyo",
+    moves: 28,
+    meaning: "The noted monk who introduced Buddhism to the Silla dynasty in 686 AD.",
+    meaningKeywords: ["monk", "buddhism"],
+    readyPosture: "Close ready stance A",
+    techniques: ["bending stance", "fixed stance", "twin forearm block", "side piercing kick"],
   },
   {
-    id: "q_tool_target",
-    prompt: "What is meant by ‘Tool’ and ‘Target’?",
-    modelAnswer:
-      "The tool is the body part used to strike or block (e.g., forefist, knife-hand). The target is the point on the opponent’s body that the technique is aimed at.",
-    tags: ["basics"],
-    sourceNote: "OMA theory sheet",
+    name: "Yul-Gok",
+    moves: 38,
+    meaning: "Pseudonym of the philosopher Yi I, the “Confucius of Korea”; 38 moves for his birthplace on the 38th latitude.",
+    meaningKeywords: ["yi i|philosopher|confucius"],
+    readyPosture: "Parallel ready stance",
+    techniques: ["bending stance", "backfist", "elbow strike", "hooking block", "X-stance"],
   },
   {
-    id: "q_bending_stance_patterns",
-    prompt: "Name 3 patterns with bending (goburyo) stance.",
-    modelAnswer: "Won-Hyo, Yul-Gok, and Choong-Moo.",
-    tags: ["patterns"],
-    sourceNote: "Black belt pointers sheet",
+    name: "Joong-Gun",
+    moves: 32,
+    meaning: "Named after the patriot Ahn Joong-Gun; 32 moves for his age when he was executed in Lui-Shung prison in 1910.",
+    meaningKeywords: ["ahn joong gun|an joong gun|patriot", "32|prison|executed"],
+    readyPosture: "Close ready stance B",
+    techniques: ["backfist", "release", "rear foot stance", "upward elbow strike", "twin vertical punch"],
   },
   {
-    id: "q_backfist_patterns",
-    prompt: "Name 5 patterns containing backfist.",
-    modelAnswer: "Do-San, Yul-Gok, Joong-Gun, Toi-Gye, Choong-Moo.",
-    tags: ["patterns"],
-    sourceNote: "Black belt pointers sheet",
+    name: "Toi-Gye",
+    moves: 37,
+    meaning: "Pen name of the scholar Yi Hwang, an authority on neo-Confucianism; 37 moves for his birthplace on the 37th latitude.",
+    meaningKeywords: ["yi hwang|scholar", "confucian|confucianism"],
+    readyPosture: "Close ready stance B",
+    techniques: ["backfist", "upset fingertip thrust", "W-shape block", "X-fist pressing block"],
   },
   {
-    id: "q_fingertip_thrust_types",
-    prompt: "Name 3 types of fingertip thrust.",
-    modelAnswer: "Straight, Flat, and Upset fingertip thrust.",
-    tags: ["technique"],
-    sourceNote: "Black belt pointers + terminology sheet",
+    name: "Hwa-Rang",
+    moves: 29,
+    meaning: "Named after the Hwa-Rang youth group of the Silla dynasty; 29 moves for the 29th Infantry Division.",
+    meaningKeywords: ["youth group|youth", "silla|29th infantry"],
+    readyPosture: "Close ready stance C",
+    techniques: ["release", "sliding", "turning kick"],
   },
   {
-    id: "q_release_patterns",
-    prompt: "Name 3 patterns containing releases.",
-    modelAnswer: "Do-San, Joong-Gun, Hwa-Rang.",
-    tags: ["patterns"],
-    sourceNote: "Black belt pointers sheet",
+    name: "Choong-Moo",
+    moves: 30,
+    meaning: "The name given to Admiral Yi Soon-Sin, who invented the armoured turtle ship in 1592.",
+    meaningKeywords: ["yi soon sin|admiral", "turtle ship"],
+    readyPosture: "Parallel ready stance",
+    techniques: ["backfist", "bending stance", "flying side kick", "knife-hand guarding block"],
   },
   {
-    id: "q_slow_motion",
-    prompt: "Why do we require slow motion moves?",
-    modelAnswer:
-      "To develop balance, breath control, timing, concentration, and body awareness, and to ensure correct technique and control through the full range of motion.",
-    tags: ["patterns", "theory-of-power"],
-    sourceNote: "OMA theory sheet",
+    name: "Kwang-Gae",
+    moves: 39,
+    meaning: "Named after Kwang-Gae-Toh-Wang, 19th king of the Koguryo dynasty, who regained the lost territories; 39 moves from 391 AD.",
+    meaningKeywords: ["kwang gae toh wang|king", "lost territories|territories|koguryo"],
+    readyPosture: "Parallel stance with a heaven hand",
+    techniques: ["heaven hand", "slow motion"],
+  },
+  {
+    name: "Po-Eun",
+    moves: 36,
+    meaning: "Pseudonym of Chong Mong-Chu, a loyal subject and poet of the Koryo dynasty.",
+    meaningKeywords: ["chong mong chu|poet", "loyal|loyalty"],
+    techniques: [],
+  },
+  {
+    name: "Ge-Baek",
+    moves: 44,
+    meaning: "Named after Ge-Baek, a great general of the Baek Je dynasty (660 AD).",
+    meaningKeywords: ["general", "baek je"],
+    techniques: [],
+  },
+  {
+    name: "Eui-Am",
+    moves: 45,
+    meaning: "Pseudonym of Son Byong Hi, leader of the Korean independence movement of 1 March 1919.",
+    meaningKeywords: ["son byong hi|independence"],
+    techniques: [],
+  },
+  {
+    name: "Choong-Jang",
+    moves: 52,
+    meaning: "Pseudonym of General Kim Duk Ryang of the Lee dynasty.",
+    meaningKeywords: ["kim duk ryang|general"],
+    techniques: [],
+  },
+  {
+    name: "Juche",
+    moves: 45,
+    meaning: "The philosophical idea that man is the master of everything and decides everything.",
+    meaningKeywords: ["master of everything|master", "philosophy|philosophical|idea"],
+    techniques: [],
+  },
+  {
+    name: "Sam-Il",
+    moves: 33,
+    meaning: "The historical date of the Korean independence movement that began on 1 March 1919.",
+    meaningKeywords: ["1 march 1919|march 1|1919|independence"],
+    techniques: [],
+  },
+  {
+    name: "Yoo-Sin",
+    moves: 68,
+    meaning: "Named after General Kim Yoo Sin, commanding general of the Silla dynasty; 68 moves from 668 AD.",
+    meaningKeywords: ["kim yoo sin|general", "silla"],
+    techniques: [],
+  },
+  {
+    name: "Choi-Yong",
+    moves: 46,
+    meaning: "Named after General Choi Yong, premier and commander in chief of the armed forces in the Koryo dynasty.",
+    meaningKeywords: ["choi yong|general", "koryo|commander"],
+    techniques: [],
+  },
+  {
+    name: "Yon-Gae",
+    moves: 49,
+    meaning: "Named after the general Yon Gae Somoon of the Koguryo dynasty; 49 moves from 649 AD.",
+    meaningKeywords: ["yon gae somoon|general", "koguryo"],
+    techniques: [],
+  },
+  {
+    name: "Ul-Ji",
+    moves: 42,
+    meaning: "Named after General Ul-Ji Moon Dok, who defended Korea against a Tang invasion force in 612 AD.",
+    meaningKeywords: ["ul ji moon dok|general", "tang|invasion|defended"],
+    techniques: [],
+  },
+  {
+    name: "Moon-Moo",
+    moves: 61,
+    meaning: "Honours the 30th king of the Silla dynasty; 61 moves from 661 AD, when he came to the throne.",
+    meaningKeywords: ["king|30th king", "silla"],
+    techniques: [],
+  },
+  {
+    name: "So-San",
+    moves: 72,
+    meaning: "Pseudonym of the monk Choi Hyong Ung, who organised monk soldiers against Japanese pirates in 1592.",
+    meaningKeywords: ["choi hyong ung|monk", "pirates|soldiers"],
+    techniques: [],
+  },
+  {
+    name: "Se-Jong",
+    moves: 24,
+    meaning: "Named after King Se-Jong, who invented the Korean alphabet in 1443.",
+    meaningKeywords: ["king|se jong", "alphabet"],
+    techniques: [],
+  },
+  {
+    name: "Tong-Il",
+    moves: 56,
+    meaning: "The resolution of the unification of Korea, divided since 1945.",
+    meaningKeywords: ["unification|reunification"],
+    techniques: [],
   },
 ];
 
-function computeStats(history: HistoryEntry[]) {
-  const total = history.length;
-  const correct = history.filter((h) => h.correct).length;
-  const incorrect = total - correct;
+function gradeById(id: string): Grade | undefined {
+  return CURRICULUM.find((g) => g.id === id);
+}
 
-  const byQuestion: Record<string, { attempts: number; correct: number; incorrect: number }> = {};
-  const byTag: Record<string, { attempts: number; correct: number; incorrect: number }> = {};
+// Cumulative syllabus: everything required for every grade up to and including the target.
+function syllabusUpTo(target: Grade) {
+  const grades = CURRICULUM.filter((g) => g.rank <= target.rank);
+  return {
+    patterns: grades.flatMap((g) => g.patterns),
+    terminology: grades.flatMap((g) => g.terminology),
+    theory: Array.from(new Set(grades.flatMap((g) => g.theory))),
+  };
+}
 
-  for (const h of history) {
-    byQuestion[h.qid] ??= { attempts: 0, correct: 0, incorrect: 0 };
-    byQuestion[h.qid].attempts += 1;
-    if (h.correct) byQuestion[h.qid].correct += 1;
-    else byQuestion[h.qid].incorrect += 1;
+// The grade whose syllabus first lists the term; unlisted terms apply to every grade.
+function termGrade(term: GlossaryTerm): string | undefined {
+  const names = [term.korean, ...term.spellings].map(normalizeAnswer);
+  return CURRICULUM.find((g) => g.terminology.some((t) => names.includes(normalizeAnswer(t))))?.id;
+}
 
-    for (const t of h.tags || []) {
-      byTag[t] ??= { attempts: 0, correct: 0, incorrect: 0 };
-      byTag[t].attempts += 1;
-      if (h.correct) byTag[t].correct += 1;
-      else byTag[t].incorrect += 1;
-    }
-  }
+// Two flashcards per term. Korean→English grades the meaning; English→Korean accepts any listed romanisation.
+function glossaryQuestions(glossary: GlossaryTerm[]): Question[] {
+  return glossary.flatMap((term) => {
+    const grade = termGrade(term);
+    const base = { tags: ["terminology", term.category], ...(grade && { grades: [grade] }) };
+    return [
+      {
+        ...base,
+        id: `term_${term.id}_ko`,
+        prompt: `What does “${term.korean}” (${term.hangul}) mean?`,
+        modelAnswer: term.english,
+        keywords: [[term.english, ...(term.englishAlt ?? [])].join("|")],
+      },
+      {
+        ...base,
+        id: `term_${term.id}_en`,
+        prompt: `What is the Korean term for “${term.english}”?`,
+        modelAnswer: `${term.korean} (${term.hangul})`,
+        keywords: [[term.korean, ...term.spellings].join("|")],
+      },
+    ];
+  });
+}
 
-  const accuracy = total ? Math.round((correct / total) * 100) : 0;
+function patternGrade(p: PatternInfo): string | undefined {
+  return CURRICULUM.find((g) => g.patterns.includes(p.name))?.id;
+}
 
-  return { total, correct, incorrect, accuracy, byQuestion, byTag };
+function patternSlug(name: string): string {
+  return normalizeAnswer(name).replace(/ /g, "");
 }
 
-function pickQuestion(pool: Question[]) {
-  if (!pool.length) return null;
-  return pool[Math.floor(Math.random() * pool.length)];
+// Move count, meaning and ready posture questions per pattern. Posture → pattern is only asked when
+// exactly one pattern uses that posture, which can only be known once every pattern has one recorded.
+function patternQuestions(patterns: PatternInfo[]): Question[] {
+  const counts = Array.from(new Set(patterns.map((p) => p.moves)));
+  const postureComplete = patterns.every((p) => p.readyPosture);
+  return patterns.flatMap((p) => {
+    const grade = patternGrade(p);
+    const base = { tags: ["patterns", "pattern-facts"], ...(grade && { grades: [grade] }) };
+    const id = `tul_${patternSlug(p.name)}`;
+    const distractors = counts
+      .filter((n) => n !== p.moves)
+      .sort((a, b) => Math.abs(a - p.moves) - Math.abs(b - p.moves))
+      .slice(0, CHOICE_OPTION_COUNT - 1)
+      .map(String);
+    const out: Question[] = [
+      {
+        ...base,
+        id: `${id}_moves`,
+        prompt: `How many moves are in ${p.name}?`,
+        modelAnswer: `${p.moves}.`,
+        kind: "choice",
+        choice: { correct: String(p.moves), distractors },
+      },
+      {
+        ...base,
+        id: `${id}_meaning`,
+        prompt: `What does ${p.name} mean?`,
+        modelAnswer: p.meaning,
+        keywords: p.meaningKeywords,
+      },
+    ];
+    if (p.readyPosture) {
+      out.push({
+        ...base,
+        id: `${id}_ready`,
+        prompt: `What is the ready posture for ${p.name}?`,
+        modelAnswer: `${p.readyPosture}.`,
+        keywords: [p.readyPosture],
+      });
+      const sharing = patterns.filter((o) => o.readyPosture === p.readyPosture);
+      if (postureComplete && sharing.length === 1) {
+        out.push({
+          ...base,
+          id: `${id}_which_ready`,
+          prompt: `Which pattern has the ready posture “${p.readyPosture}”?`,
+          modelAnswer: `${p.name}.`,
+          keywords: [p.name],
+        });
+      }
+    }
+    return out;
+  });
 }
 
-export default function App() {
-  const [history, setHistory] = useState<HistoryEntry[]>(() => loadJSON(LS_KEYS.HISTORY, []));
-  const [settings, setSettings] = useState<Settings>(() => loadJSON(LS_KEYS.SETTINGS, DEFAULT_SETTINGS));
-  const [bank, setBank] = useState<Question[]>(() => loadJSON(LS_KEYS.BANK, BUILTIN_QUESTION_BANK));
+// Items in hand-written pattern list questions that aren't known pattern names (usually a misspelling,
+// which would also stop the student's correct answer from matching).
+function checkPatternLists(bank: Question[], patterns: PatternInfo[]): string[] {
+  const known = new Set(patterns.map((p) => patternSlug(p.name)));
+  const problems: string[] = [];
+  for (const q of bank) {
+    if (!isListQuestion(q) || !/pattern|tul/i.test(q.prompt)) continue;
+    for (const item of q.list.items.map(listItemLabel)) {
+      if (!known.has(patternSlug(item))) problems.push(`${q.id}: “${item}” is not a known pattern`);
+    }
+  }
+  return problems;
+}
 
-  const stats = useMemo(() => computeStats(history), [history]);
+function questionInScope(q: Question, target: Grade | undefined): boolean {
+  if (!target || !q.grades?.length) return true;
+  return q.grades.some((id) => (gradeById(id)?.rank ?? Infinity) <= target.rank);
+}
 
-  const [current, setCurrent] = useState<Question | null>(null);
-  const [showAnswer, setShowAnswer] = useState(false);
+function uid(): string {
+  return Math.random().toString(16).slice(2) + Date.now().toString(16);
+}
+
+function clamp(n: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, n));
+}
 
-  const [filters, setFilters] = useState<{ tags: Set<string> }>({ tags: new Set() });
+function formatClock(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
 
-  const [editorOpen, setEditorOpen] = useState(false);
-  const [editorText, setEditorText] = useState("");
+function dayName(d: number): string {
+  return ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"][d] ?? "";
+}
 
-  const reminderTimerRef = useRef<number | null>(null);
+// iCalendar (RFC 5545) export. Times are floating local times so events follow the device's time zone.
 
-  // Exam mode state
-  const [mode, setMode] = useState<"practice" | "exam" | "examResult">("practice");
-  const [examOrder, setExamOrder] = useState<Question[]>([]);
-  const [examIndex, setExamIndex] = useState(0);
-  const [examAnswers, setExamAnswers] = useState<{ qid: string; correct: boolean }[]>([]);
+const ICS_DAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const REMINDER_EVENT_MINUTES = 15;
 
-  // Theme
-  useEffect(() => {
-    document.documentElement.setAttribute("data-theme", settings.theme);
-    saveJSON(LS_KEYS.SETTINGS, settings);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [settings.theme]);
+type IcsEvent = {
+  uid: string;
+  start: Date;
+  allDay?: boolean;
+  minutes?: number;
+  rrule?: string;
+  summary: string;
+  description?: string;
+  alarm?: boolean;
+};
 
-  const allTags = useMemo(() => {
-    const s = new Set<string>();
-    for (const q of bank) (q.tags || []).forEach((t) => s.add(t));
-    return Array.from(s).sort();
-  }, [bank]);
+function icsEscape(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
 
-  const pool = useMemo(() => {
-    if (!filters.tags.size) return bank;
-    return bank.filter((q) => (q.tags || []).some((t) => filters.tags.has(t)));
-  }, [bank, filters.tags]);
+function icsDate(d: Date, allDay = false): string {
+  const date = dayKey(d).replace(/-/g, "");
+  if (allDay) return date;
+  return `${date}T${String(d.getHours()).padStart(2, "0")}${String(d.getMinutes()).padStart(2, "0")}00`;
+}
 
-  function newPracticeQuestion() {
-    const q = pickQuestion(pool);
-    setCurrent(q);
-    setShowAnswer(false);
+// Lines longer than 75 octets continue on the next line after a single space.
+function icsFold(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  for (const ch of line) {
+    if (encoder.encode(current + ch).length > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = "";
+    }
+    current += ch;
   }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
 
-  function logAttempt(q: Question, correct: boolean) {
-    const entry: HistoryEntry = {
-      id: uid(),
-      qid: q.id,
-      correct,
-      at: new Date().toISOString(),
-      tags: q.tags || [],
-    };
-    const nextHistory = [entry, ...history].slice(0, 5000);
-    setHistory(nextHistory);
-    saveJSON(LS_KEYS.HISTORY, nextHistory);
+function buildCalendar(name: string, events: IcsEvent[], now = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//ITF Theory Mock Test//EN", "CALSCALE:GREGORIAN", `X-WR-CALNAME:${icsEscape(name)}`];
+  for (const e of events) {
+    lines.push("BEGIN:VEVENT", `UID:${e.uid}`, `DTSTAMP:${stamp}`);
+    if (e.allDay) {
+      lines.push(`DTSTART;VALUE=DATE:${icsDate(e.start, true)}`, `DTEND;VALUE=DATE:${icsDate(addDays(e.start, 1), true)}`);
+    } else {
+      lines.push(`DTSTART:${icsDate(e.start)}`, `DURATION:PT${e.minutes ?? REMINDER_EVENT_MINUTES}M`);
+    }
+    if (e.rrule) lines.push(`RRULE:${e.rrule}`);
+    lines.push(`SUMMARY:${icsEscape(e.summary)}`);
+    if (e.description) lines.push(`DESCRIPTION:${icsEscape(e.description)}`);
+    if (e.alarm) lines.push("BEGIN:VALARM", "ACTION:DISPLAY", `DESCRIPTION:${icsEscape(e.summary)}`, "TRIGGER:PT0M", "END:VALARM");
+    lines.push("END:VEVENT");
   }
+  lines.push("END:VCALENDAR");
+  return lines.map(icsFold).join("\r\n") + "\r\n";
+}
 
-  function scorePractice(correct: boolean) {
-    if (!current) return;
-    logAttempt(current, correct);
-    newPracticeQuestion();
+// One weekly recurring event per reminder time, starting at its next occurrence.
+function reminderEvents(settings: Settings, now = new Date()): IcsEvent[] {
+  const days = [...settings.reminderDays].sort().map((d) => ICS_DAYS[d]);
+  if (!days.length) return [];
+  return settings.reminderTimes.map((time) => {
+    const ms = nextReminderDelayMs({ ...settings, reminderTimes: [time] }, now) ?? 0;
+    return {
+      uid: `reminder-${time.replace(":", "")}@itf-theory-mock`,
+      start: new Date(now.getTime() + ms),
+      rrule: `FREQ=WEEKLY;BYDAY=${days.join(",")}`,
+      summary: "Taekwon-Do theory practice",
+      description: settings.reminderMessage,
+      alarm: true,
+    };
+  });
+}
+
+// Whole days from today until the grading date; 0 on the day itself, negative once it has passed.
+function daysUntil(date: string, now = new Date()): number | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  const target = new Date(`${date}T12:00:00`);
+  const today = new Date(now);
+  today.setHours(12, 0, 0, 0);
+  return Math.round((target.getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+type StudyDay = { date: Date; questions: Question[] };
+
+// Spreads unseen questions and those not yet mastered over the days before grading, weakest first.
+function buildStudyPlan(questions: Question[], byQuestion: Record<string, Mastery>, gradingDate: string, now = new Date()): StudyDay[] {
+  const left = daysUntil(gradingDate, now);
+  if (left === null || left <= 0) return [];
+  const todo = questions
+    .filter((q) => masteryLevel(byQuestion, q.id) !== "mastered")
+    .sort((a, b) => (byQuestion[a.id]?.score ?? -1) - (byQuestion[b.id]?.score ?? -1));
+  const perDay = Math.ceil(todo.length / left);
+  const plan: StudyDay[] = [];
+  for (let i = 0; i < left && i * perDay < todo.length; i++) {
+    plan.push({ date: addDays(now, i), questions: todo.slice(i * perDay, (i + 1) * perDay) });
   }
+  return plan;
+}
 
-  async function requestNotifications() {
-    if (!("Notification" in window)) return false;
-    const perm = await Notification.requestPermission();
-    return perm === "granted";
+function studyPlanEvents(plan: StudyDay[], gradingDate: string, gradeLabel: string): IcsEvent[] {
+  const events: IcsEvent[] = plan.map((day) => ({
+    uid: `plan-${dayKey(day.date)}@itf-theory-mock`,
+    start: day.date,
+    allDay: true,
+    summary: `Theory study: ${day.questions.length} question${day.questions.length === 1 ? "" : "s"}`,
+    description: day.questions.map((q) => `• ${q.prompt}`).join("\n"),
+  }));
+  events.push({
+    uid: `grading-${gradingDate}@itf-theory-mock`,
+    start: new Date(`${gradingDate}T12:00:00`),
+    allDay: true,
+    summary: gradeLabel ? `Grading: ${gradeLabel}` : "Grading",
+  });
+  return events;
+}
+
+function shuffle<T>(arr: T[], random: () => number = Math.random): T[] {
+  const a = [...arr];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
   }
+  return a;
+}
 
-  function fireReminderNotification() {
-    try {
-      new Notification("ITF Theory Mock Test", { body: settings.reminderMessage });
-    } catch {}
+function endOfDay(d: Date): Date {
+  const e = new Date(d);
+  e.setHours(23, 59, 59, 999);
+  return e;
+}
+
+const MIN_EASE = 1.3;
+const START_EASE = 2.5;
+const RELEARN_MINUTES = 10;
+
+// SM-2 with a binary grade: "correct" is treated as quality 4, "missed" as quality 1.
+// Missed cards drop back to a short relearning step so they come up again the same day.
+function reviewCard(card: ReviewCard | undefined, qid: string, correct: boolean, now: Date): ReviewCard {
+  const prev = card ?? { qid, due: now.toISOString(), interval: 0, ease: START_EASE, reps: 0, lapses: 0, lastReviewed: "" };
+  const quality = correct ? 4 : 1;
+  const ease = Math.max(MIN_EASE, prev.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  if (!correct) {
+    const due = new Date(now.getTime() + RELEARN_MINUTES * 60 * 1000);
+    return { ...prev, ease, reps: 0, interval: 0, lapses: prev.lapses + 1, due: due.toISOString(), lastReviewed: now.toISOString() };
   }
 
-  function scheduleReminderLoop(nextSettings?: Settings) {
-    const s = nextSettings || settings;
-    if (reminderTimerRef.current) {
-      clearTimeout(reminderTimerRef.current);
-      reminderTimerRef.current = null;
+  const reps = prev.reps + 1;
+  const interval = reps === 1 ? 1 : reps === 2 ? 6 : Math.round(Math.max(prev.interval, 1) * ease);
+  const due = new Date(now);
+  due.setDate(due.getDate() + interval);
+  return { ...prev, ease, reps, interval, due: due.toISOString(), lastReviewed: now.toISOString() };
+}
+
+function isDueBy(card: ReviewCard | undefined, by: Date): boolean {
+  return !!card && new Date(card.due).getTime() <= by.getTime();
+}
+
+// Typed-answer grading
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "from", "into", "are", "was", "were", "which", "what", "when",
+  "where", "how", "its", "their", "they", "them", "also", "used", "use", "such", "each", "help", "helps",
+]);
+
+function normalizeAnswer(s: string): string {
+  return s
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+type AnswerTerm = { label: string; variants: string[] };
+
+// Required terms come from Question.keywords when authored; otherwise list answers
+// ("A, B, and C" or "...: A, B, C") are split into items, and prose falls back to its content words.
+function answerTerms(q: Question): AnswerTerm[] {
+  if (q.keywords?.length) {
+    return q.keywords.map((k) => {
+      const variants = k.split("|").map((v) => v.trim()).filter(Boolean);
+      return { label: variants[0] ?? k, variants };
+    });
+  }
+
+  const body = q.modelAnswer.includes(":") ? q.modelAnswer.slice(q.modelAnswer.lastIndexOf(":") + 1) : q.modelAnswer;
+  const items = body
+    .replace(/\.\s*$/, "")
+    .split(/,\s*(?:and\s+)?|\s+and\s+/)
+    .map((x) => x.trim())
+    .filter(Boolean);
+
+  if (items.length > 1) {
+    return items.map((item) => {
+      const alt = item.match(/^(.*?)\s*\((.*?)\)\s*$/);
+      return alt ? { label: item, variants: [alt[1], alt[2]] } : { label: item, variants: [item] };
+    });
+  }
+
+  const words = Array.from(new Set(normalizeAnswer(q.modelAnswer).split(" ")));
+  return words.filter((w) => w.length > 3 && !STOPWORDS.has(w)).map((w) => ({ label: w, variants: [w] }));
+}
+
+function expandSynonyms(variant: string, synonyms: Record<string, string[]>): string[] {
+  const v = normalizeAnswer(variant);
+  const out = new Set([v]);
+  for (const [key, alts] of Object.entries(synonyms)) {
+    const group = [key, ...alts].map(normalizeAnswer);
+    if (group.includes(v)) group.forEach((g) => out.add(g));
+  }
+  return Array.from(out).filter(Boolean);
+}
+
+function termMatches(answer: string, variant: string): boolean {
+  if (` ${answer} `.includes(` ${variant} `)) return true;
+  // "dosan" for "Do-San", "selfcontrol" for "Self-Control"
+  return variant.includes(" ") && answer.replace(/ /g, "").includes(variant.replace(/ /g, ""));
+}
+
+function isListQuestion(q: Question): q is Question & { list: ListAnswer } {
+  return q.kind === "list" && !!q.list?.items.length;
+}
+
+function listItemLabel(item: string): string {
+  return item.split("|")[0].trim();
+}
+
+function finishListGrade(list: ListAnswer, hits: string[]): GradeResult {
+  const labels = list.items.map(listItemLabel);
+  const need = clamp(list.minRequired || labels.length, 1, labels.length);
+  const correct = hits.length >= need;
+  // Every item is a hit or a miss on every attempt, so per-item stats don't depend on passing.
+  const misses = labels.filter((l) => !hits.includes(l));
+  return { score: Math.min(hits.length, need) / need, hits, misses, correct };
+}
+
+// Indexes of the longest run of found items whose positions in the answer keep the list's order.
+function longestInOrder(found: { index: number; pos: number }[]): number[] {
+  const length = found.map(() => 1);
+  const prev = found.map(() => -1);
+  for (let i = 0; i < found.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (found[j].pos < found[i].pos && length[j] + 1 > length[i]) [length[i], prev[i]] = [length[j] + 1, j];
+    }
+  }
+  const run: number[] = [];
+  for (let i = length.indexOf(Math.max(0, ...length)); i >= 0; i = prev[i]) run.unshift(found[i].index);
+  return run;
+}
+
+// For ordered lists only the longest in-order run counts, so one early slip doesn't drop everything after it.
+function gradeListTyped(q: Question & { list: ListAnswer }, response: string, settings: Settings): GradeResult {
+  const answer = normalizeAnswer(response);
+  const compact = answer.replace(/ /g, "");
+  const found: { index: number; pos: number }[] = [];
+  q.list.items.forEach((item, index) => {
+    const variants = item.split("|").flatMap((v) => expandSynonyms(v, settings.synonyms));
+    const positions = variants
+      .filter((v) => termMatches(answer, v))
+      .map((v) => compact.indexOf(v.replace(/ /g, "")))
+      .filter((i) => i >= 0);
+    if (positions.length) found.push({ index, pos: Math.min(...positions) });
+  });
+  const counted = q.list.ordered ? longestInOrder(found) : found.map((f) => f.index);
+  return finishListGrade(q.list, counted.map((i) => listItemLabel(q.list.items[i])));
+}
+
+function gradeListTicks(q: Question & { list: ListAnswer }, ticked: string[]): GradeResult {
+  const labels = q.list.items.map(listItemLabel);
+  return finishListGrade(q.list, labels.filter((l) => ticked.includes(l)));
+}
+
+// Multiple choice / true-false
+
+const CHOICE_OPTION_COUNT = 4;
+
+function isChoiceQuestion(q: Question): boolean {
+  return (q.kind === "choice" && !!q.choice?.correct) || (q.kind === "truefalse" && typeof q.truth === "boolean");
+}
+
+function correctOption(q: Question): string {
+  if (q.kind === "truefalse") return q.truth ? "True" : "False";
+  return q.choice?.correct ?? q.modelAnswer;
+}
+
+// Deterministic random numbers (mulberry32) seeded from a string.
+function seededRandom(seed: string): () => number {
+  let h = 2166136261;
+  for (let i = 0; i < seed.length; i++) h = Math.imul(h ^ seed.charCodeAt(i), 16777619);
+  return () => {
+    h = (h + 0x6d2b79f5) | 0;
+    let t = Math.imul(h ^ (h >>> 15), 1 | h);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const MAX_AUTO_DISTRACTOR_LENGTH = 40;
+
+// Answers of an open or list question short enough to stand next to a choice answer.
+function shortAnswers(q: Question): string[] {
+  if (isListQuestion(q)) return q.list.items.map(listItemLabel);
+  const answer = q.modelAnswer.trim().replace(/\.$/, "");
+  return answer.length <= MAX_AUTO_DISTRACTOR_LENGTH ? [answer] : [];
+}
+
+// `seed` is per attempt (or per printed paper): the order changes each time a question comes up, so the
+// position can't be learned, but stays put while the bank is edited mid-question.
+// Auto distractors are other same-tag choice answers first, since they have the same shape as the
+// correct one; where there aren't enough, same-tag list items and short model answers.
+function choiceOptions(q: Question, bank: Question[], seed: string): string[] {
+  if (q.kind === "truefalse") return ["True", "False"];
+  const random = seededRandom(`${seed}:${q.id}`);
+  const correct = correctOption(q);
+  const wrong = new Set((q.choice?.distractors || []).filter((d) => d && d !== correct));
+
+  if (q.choice?.autoDistractors && wrong.size < CHOICE_OPTION_COUNT - 1) {
+    const tags = new Set(q.tags || []);
+    const sameTag = bank.filter((o) => o.id !== q.id && (o.tags || []).some((t) => tags.has(t)));
+    const choiceAnswers = sameTag.filter((o) => o.kind === "choice").map((o) => o.choice?.correct ?? "");
+    const otherAnswers = sameTag.filter((o) => o.kind !== "choice" && o.kind !== "truefalse").flatMap(shortAnswers);
+    for (const pool of [choiceAnswers, otherAnswers]) {
+      const fresh = pool.filter((a) => a && a !== correct && !wrong.has(a));
+      for (const a of shuffle([...new Set(fresh)].sort(), random)) {
+        if (wrong.size >= CHOICE_OPTION_COUNT - 1) break;
+        wrong.add(a);
+      }
+    }
+  }
+
+  return shuffle([correct, ...Array.from(wrong).slice(0, CHOICE_OPTION_COUNT - 1)], random);
+}
+
+function gradeChoice(q: Question, picked: string): GradeResult {
+  const correct = correctOption(q);
+  const ok = picked === correct;
+  return { score: ok ? 1 : 0, hits: ok ? [correct] : [], misses: ok ? [] : [correct], correct: ok };
+}
+
+// Structural checks the bank editor runs before saving; returns human-readable problems.
+function validateQuestionFormat(q: Question): string[] {
+  const errors: string[] = [];
+  if (q.kind === "list") {
+    if (!q.list || !Array.isArray(q.list.items) || !q.list.items.length) errors.push("list questions need list.items");
+    else if (!q.list.items.every(isNonEmptyString)) errors.push("list.items must be non-empty strings");
+    else if (!Number.isInteger(q.list.minRequired) || q.list.minRequired < 0) errors.push("list.minRequired must be a whole number");
+    else if (q.list.minRequired > q.list.items.length) errors.push("list.minRequired is larger than the number of items");
+    if (q.list && typeof q.list.ordered !== "boolean") errors.push("list.ordered must be true or false");
+  }
+  if (q.kind === "choice") {
+    if (!q.choice?.correct) errors.push("choice questions need choice.correct");
+    const distractors = q.choice?.distractors || [];
+    if (!Array.isArray(distractors) || distractors.some((d) => typeof d !== "string")) errors.push("choice.distractors must be strings");
+    else if (distractors.includes(q.choice?.correct ?? "")) errors.push("choice.distractors must not contain the correct answer");
+    else if (!distractors.length && !q.choice?.autoDistractors) errors.push("choice questions need distractors or autoDistractors: true");
+  }
+  if (q.kind === "truefalse" && typeof q.truth !== "boolean") errors.push("truefalse questions need truth: true or false");
+  return errors;
+}
+
+// Bank schema validation
+
+const TAG_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const QUESTION_KINDS = ["open", "list", "choice", "truefalse"];
+const DATA_IMAGE_URL = /^data:image\/[\w.+-]+;base64,[A-Za-z0-9+/=]+$/;
+
+function isNonEmptyString(v: unknown): v is string {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+function validateQuestionEntry(entry: unknown): string[] {
+  if (!entry || typeof entry !== "object" || Array.isArray(entry)) return ["entry must be an object"];
+  const q = entry as Question;
+  const errors: string[] = [];
+  if (!isNonEmptyString(q.id)) errors.push("missing id");
+  else if (/\s/.test(q.id)) errors.push("id must not contain spaces");
+  if (!isNonEmptyString(q.prompt)) errors.push("missing prompt");
+  if (!isNonEmptyString(q.modelAnswer)) errors.push("missing modelAnswer");
+  if (q.tags !== undefined) {
+    if (!Array.isArray(q.tags)) errors.push("tags must be an array");
+    else for (const t of q.tags) if (typeof t !== "string" || !TAG_PATTERN.test(t)) errors.push(`bad tag ${JSON.stringify(t)} (use lowercase-with-dashes)`);
+  }
+  if (q.sourceNote !== undefined && typeof q.sourceNote !== "string") errors.push("sourceNote must be text");
+  if (q.keywords !== undefined && (!Array.isArray(q.keywords) || !q.keywords.every(isNonEmptyString))) errors.push("keywords must be a list of text");
+  if (q.grades !== undefined) {
+    if (!Array.isArray(q.grades)) errors.push("grades must be an array");
+    else for (const g of q.grades) if (!gradeById(g)) errors.push(`unknown grade ${JSON.stringify(g)}`);
+  }
+  if (q.kind !== undefined && !QUESTION_KINDS.includes(q.kind)) errors.push(`unknown kind ${JSON.stringify(q.kind)}`);
+  for (const field of ["promptImages", "answerImages"] as AttachmentField[]) {
+    const images = q[field];
+    if (images === undefined) continue;
+    if (!Array.isArray(images)) errors.push(`${field} must be an array`);
+    else if (!images.every((a) => a && typeof a.name === "string" && typeof a.dataUrl === "string" && DATA_IMAGE_URL.test(a.dataUrl) && (a.alt === undefined || typeof a.alt === "string"))) {
+      errors.push(`${field} entries need a name, a base64 data:image/… dataUrl and a text alt if any`);
+    }
+  }
+  return [...errors, ...validateQuestionFormat(q)];
+}
+
+// Valid entries come back as questions; every problem is reported as "#n id: message".
+// `others` are questions already in the bank that auto distractors can also draw from (on import).
+function validateBankEntries(raw: unknown, others: Question[] = []): { questions: Question[]; errors: string[] } {
+  if (!Array.isArray(raw)) return { questions: [], errors: ["Bank must be a JSON array of questions."] };
+  const questions: Question[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  raw.forEach((entry, i) => {
+    const problems = validateQuestionEntry(entry);
+    const id = (entry as Question)?.id;
+    if (!problems.length && seen.has(id)) problems.push("duplicate id");
+    if (problems.length) {
+      errors.push(...problems.map((msg) => `#${i + 1} ${isNonEmptyString(id) ? id : "(no id)"}: ${msg}`));
+      return;
+    }
+    seen.add(id);
+    questions.push(entry as Question);
+  });
+  // Auto distractors need same-tag questions; a choice question left with one option can't be asked.
+  const pool = [...questions, ...others.filter((o) => !seen.has(o.id))];
+  const answerable = questions.filter((q) => {
+    if (q.kind !== "choice" || choiceOptions(q, pool, "").length >= 2) return true;
+    errors.push(`#${raw.indexOf(q) + 1} ${q.id}: choice question has fewer than 2 options`);
+    return false;
+  });
+  return { questions: answerable, errors };
+}
+
+// Image attachments
+
+const MAX_IMAGE_PX = 1024;
+const MAX_INLINE_IMAGE_BYTES = 150_000;
+
+function readDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Small images and diagrams are kept as they are; large photos are scaled down and re-encoded
+// as JPEG so the bank stays a reasonable size.
+async function readImageFile(file: File): Promise<Attachment> {
+  if (!file.type.startsWith("image/")) throw new Error("not an image");
+  const name = file.name;
+  if (file.size <= MAX_INLINE_IMAGE_BYTES) return { name, dataUrl: await readDataUrl(file) };
+  // SVGs can't be scaled down by re-encoding, so large ones are refused rather than bloating the bank.
+  if (file.type === "image/svg+xml") throw new Error(`SVG diagrams must be under ${Math.round(MAX_INLINE_IMAGE_BYTES / 1000)} KB`);
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_PX / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("could not process the image");
+  ctx.fillStyle = "#fff"; // JPEG has no transparency
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return { name, dataUrl: canvas.toDataURL("image/jpeg", 0.85) };
+}
+
+type MergeChoice = "mine" | "theirs" | "both";
+
+type ImportConflict = {
+  mine: Question;
+  theirs: Question;
+  kind: "changed" | "conflict"; // changed = same prompt edited; conflict = a different question under the same id
+  fields: string[];
+  choice: MergeChoice;
+};
+
+type ImportDraft = {
+  fileName: string;
+  added: Question[];
+  unchanged: number;
+  conflicts: ImportConflict[];
+  errors: string[];
+};
+
+function differingFields(a: Question, b: Question): string[] {
+  const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])) as (keyof Question)[];
+  return keys.filter((k) => JSON.stringify(a[k]) !== JSON.stringify(b[k]));
+}
+
+function diffImport(bank: Question[], incoming: Question[]): Pick<ImportDraft, "added" | "unchanged" | "conflicts"> {
+  const mineById = new Map(bank.map((q) => [q.id, q]));
+  const added: Question[] = [];
+  const conflicts: ImportConflict[] = [];
+  let unchanged = 0;
+  for (const theirs of incoming) {
+    const mine = mineById.get(theirs.id);
+    if (!mine) {
+      added.push(theirs);
+      continue;
+    }
+    const fields = differingFields(mine, theirs);
+    if (!fields.length) {
+      unchanged += 1;
+      continue;
+    }
+    const kind = mine.prompt.trim() === theirs.prompt.trim() ? "changed" : "conflict";
+    conflicts.push({ mine, theirs, kind, fields, choice: kind === "changed" ? "theirs" : "both" });
+  }
+  return { added, unchanged, conflicts };
+}
+
+function uniqueId(base: string, taken: Set<string>): string {
+  let id = `${base}_imported`;
+  for (let n = 2; taken.has(id); n++) id = `${base}_imported${n}`;
+  return id;
+}
+
+// CSV / Anki interchange. Both formats carry prompt, answer, tags and source only;
+// rows matching an existing id are laid over that question so structured fields survive a round trip.
+
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === "") quoted = true;
+    else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += ch;
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+function toDelimited(rows: string[][], delimiter: string): string {
+  const needsQuotes = new RegExp(`["\r\n${delimiter}]`);
+  return rows
+    .map((r) => r.map((cell) => (needsQuotes.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(delimiter))
+    .join("\r\n");
+}
+
+function parseTagCell(cell: string): string[] {
+  return cell
+    .split(/[\s,;]+/)
+    .map((t) => t.toLowerCase().replace(/[^a-z0-9-]+/g, "-").replace(/^-+|-+$/g, ""))
+    .filter(Boolean);
+}
+
+function slugId(prompt: string, taken: Set<string>): string {
+  const base = "q_" + normalizeAnswer(prompt).replace(/ /g, "_").slice(0, 40);
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}_${n}`;
+  taken.add(id);
+  return id;
+}
+
+type InterchangeRow = { id?: string; prompt: string; modelAnswer: string; tags?: string[]; sourceNote?: string };
+
+function rowsToEntries(rows: InterchangeRow[], bank: Question[]): Question[] {
+  const byId = new Map(bank.map((q) => [q.id, q]));
+  const taken = new Set(bank.map((q) => q.id));
+  return rows.map((r) => {
+    const id = r.id?.trim() || slugId(r.prompt, taken);
+    const base = byId.get(id);
+    const entry: Question = { ...base, id, prompt: r.prompt, modelAnswer: r.modelAnswer };
+    if (r.tags) entry.tags = r.tags;
+    if (r.sourceNote) entry.sourceNote = r.sourceNote;
+    return entry;
+  });
+}
+
+const CSV_COLUMNS: Record<string, keyof InterchangeRow> = {
+  id: "id",
+  prompt: "prompt",
+  question: "prompt",
+  front: "prompt",
+  answer: "modelAnswer",
+  modelanswer: "modelAnswer",
+  back: "modelAnswer",
+  tags: "tags",
+  source: "sourceNote",
+  sourcenote: "sourceNote",
+};
+
+function bankToCsv(bank: Question[]): string {
+  const rows = bank.map((q) => [q.id, q.prompt, q.modelAnswer, (q.tags || []).join(" "), q.sourceNote || ""]);
+  return toDelimited([["id", "prompt", "answer", "tags", "source note"], ...rows], ",");
+}
+
+function csvToRows(text: string): InterchangeRow[] {
+  const [header, ...body] = parseDelimited(text.replace(/^\uFEFF/, ""), ",");
+  if (!header) return [];
+  const columns = header.map((h) => CSV_COLUMNS[h.toLowerCase().replace(/[^a-z]/g, "")]);
+  if (!columns.includes("prompt") || !columns.includes("modelAnswer")) {
+    throw new Error("CSV needs a header row with at least “prompt” and “answer” columns.");
+  }
+  return body.map((cells) => {
+    const row: InterchangeRow = { prompt: "", modelAnswer: "" };
+    columns.forEach((col, i) => {
+      const cell = (cells[i] ?? "").trim();
+      if (col === "tags") row.tags = parseTagCell(cell);
+      else if (col) row[col] = cell;
+    });
+    return row;
+  });
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(div|p)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+function textToHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\r?\n/g, "<br>");
+}
+
+// Anki "Notes in Plain Text": tab-separated, HTML fields, optional #key:value header lines.
+function bankToAnki(bank: Question[]): string {
+  const header = ["#separator:tab", "#html:true", "#guid column:1", "#tags column:4"].join("\n");
+  const rows = bank.map((q) => [
+    q.id,
+    textToHtml(q.prompt),
+    textToHtml(q.modelAnswer + (q.sourceNote ? `\n\nSource: ${q.sourceNote}` : "")),
+    (q.tags || []).join(" "),
+  ]);
+  return header + "\n" + toDelimited(rows, "\t");
+}
+
+function ankiToRows(text: string): InterchangeRow[] {
+  const directives: Record<string, string> = {};
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  while (lines.length && lines[0].startsWith("#")) {
+    const [key, ...value] = lines.shift()!.slice(1).split(":");
+    directives[key.trim().toLowerCase()] = value.join(":").trim();
+  }
+  const sep = { tab: "\t", comma: ",", semicolon: ";", pipe: "|", space: " " }[directives.separator?.toLowerCase() ?? "tab"] ?? "\t";
+  const html = directives.html !== "false";
+  const guidCol = parseInt(directives["guid column"] || "0", 10) - 1;
+  const tagsCol = parseInt(directives["tags column"] || "0", 10) - 1;
+  const clean = (cell: string) => (html ? htmlToText(cell) : cell.trim());
+
+  return parseDelimited(lines.join("\n"), sep).map((cells) => {
+    const fields = cells.filter((_, i) => i !== guidCol && i !== tagsCol);
+    const back = clean(fields[1] ?? "");
+    const source = back.match(/\n\nSource: (.*)$/);
+    return {
+      id: guidCol >= 0 ? cells[guidCol]?.trim() : undefined,
+      prompt: clean(fields[0] ?? ""),
+      modelAnswer: source ? back.slice(0, source.index) : back,
+      tags: tagsCol >= 0 ? parseTagCell(cells[tagsCol] ?? "") : undefined,
+      sourceNote: source?.[1],
+    };
+  });
+}
+
+// Full backups
+
+const BACKUP_FORMAT = "itf-theory-backup";
+const BACKUP_VERSION = 1;
+
+type BackupFile = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  bank: Question[];
+  history: HistoryEntry[];
+  settings: Settings;
+  sessions: ExamSession[];
+  schedule: Schedule;
+  blueprints: ExamBlueprint[];
+  profileName?: string; // whose data this is; used to label students in the instructor view
+};
+
+type RestoreDraft = { fileName: string; backup: BackupFile; errors: string[]; mode: "replace" | "merge" };
+
+function isHistoryEntry(h: unknown): h is HistoryEntry {
+  const e = h as HistoryEntry;
+  return !!e && isNonEmptyString(e.id) && isNonEmptyString(e.qid) && typeof e.correct === "boolean" && !isNaN(Date.parse(e.at));
+}
+
+// Broken history rows and bank entries are dropped with a message; a wrong format or newer version rejects the file.
+function validateBackup(raw: unknown): { backup: BackupFile | null; errors: string[] } {
+  const b = raw as Partial<BackupFile>;
+  if (!b || typeof b !== "object" || b.format !== BACKUP_FORMAT) return { backup: null, errors: ["This is not an ITF theory backup file."] };
+  if (typeof b.version !== "number" || b.version > BACKUP_VERSION) {
+    return { backup: null, errors: [`Backup version ${b.version} is newer than this app understands (${BACKUP_VERSION}).`] };
+  }
+
+  const errors: string[] = [];
+  const { questions, errors: bankErrors } = validateBankEntries(b.bank ?? []);
+  errors.push(...bankErrors.map((e) => `bank ${e}`));
+
+  const rawHistory = Array.isArray(b.history) ? b.history : [];
+  const history = rawHistory.filter(isHistoryEntry);
+  if (history.length < rawHistory.length) errors.push(`history: ${rawHistory.length - history.length} malformed entries skipped`);
+
+  const sessions = (Array.isArray(b.sessions) ? b.sessions : []).filter((x) => isNonEmptyString(x?.id) && Array.isArray(x?.qids));
+  const settings = b.settings && typeof b.settings === "object" ? withDefaultSettings(b.settings) : DEFAULT_SETTINGS;
+  if (!b.settings) errors.push("settings missing; defaults will be used");
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: b.version,
+      exportedAt: b.exportedAt ?? "",
+      bank: questions,
+      history,
+      settings,
+      sessions,
+      schedule: b.schedule && typeof b.schedule === "object" ? b.schedule : {},
+      blueprints: Array.isArray(b.blueprints) ? b.blueprints : [],
+      ...(isNonEmptyString(b.profileName) && { profileName: b.profileName }),
+    },
+    errors,
+  };
+}
+
+function mergeById<T extends { id: string }>(mine: T[], theirs: T[]): T[] {
+  const seen = new Set(mine.map((x) => x.id));
+  return [...mine, ...theirs.filter((x) => !seen.has(x.id))];
+}
+
+function mergeSchedules(mine: Schedule, theirs: Schedule): Schedule {
+  const out = { ...mine };
+  for (const [qid, card] of Object.entries(theirs)) {
+    if (!out[qid] || Date.parse(card.lastReviewed) > Date.parse(out[qid].lastReviewed)) out[qid] = card;
+  }
+  return out;
+}
+
+function applyImport(bank: Question[], draft: ImportDraft): Question[] {
+  const taken = new Set([...bank.map((q) => q.id), ...draft.added.map((q) => q.id)]);
+  const replace = new Map(draft.conflicts.filter((c) => c.choice === "theirs").map((c) => [c.theirs.id, c.theirs]));
+  const copies = draft.conflicts
+    .filter((c) => c.choice === "both")
+    .map((c) => {
+      const id = uniqueId(c.theirs.id, taken);
+      taken.add(id);
+      return { ...c.theirs, id };
+    });
+  return [...bank.map((q) => replace.get(q.id) || q), ...draft.added, ...copies];
+}
+
+function gradeTypedAnswer(q: Question, response: string, settings: Settings): GradeResult {
+  if (isListQuestion(q)) return gradeListTyped(q, response, settings);
+
+  const answer = normalizeAnswer(response);
+  const hits: string[] = [];
+  const misses: string[] = [];
+  for (const term of answerTerms(q)) {
+    const variants = term.variants.flatMap((v) => expandSynonyms(v, settings.synonyms));
+    if (variants.some((v) => termMatches(answer, v))) hits.push(term.label);
+    else misses.push(term.label);
+  }
+  const total = hits.length + misses.length;
+  const score = total ? hits.length / total : 0;
+  return { score, hits, misses, correct: score * 100 >= settings.typedPassPct };
+}
+
+function formatSynonyms(synonyms: Record<string, string[]>): string {
+  return Object.entries(synonyms)
+    .map(([k, v]) => `${k}: ${v.join(", ")}`)
+    .join("\n");
+}
+
+function parseSynonyms(text: string): Record<string, string[]> {
+  const out: Record<string, string[]> = {};
+  for (const line of text.split("\n")) {
+    const idx = line.indexOf(":");
+    if (idx < 0) continue;
+    const key = line.slice(0, idx).trim();
+    const alts = line.slice(idx + 1).split(",").map((x) => x.trim()).filter(Boolean);
+    if (key && alts.length) out[key] = alts;
+  }
+  return out;
+}
+
+// Seeded from your sheets; add more via Edit/paste JSON in the app.
+const BUILTIN_QUESTION_BANK: Question[] = [
+  {
+    id: "q_tenets",
+    prompt: "What are the five tenets of Taekwon-Do?",
+    modelAnswer: "Courtesy, Integrity, Perseverance, Self-Control, Indomitable Spirit.",
+    tags: ["tenets", "basics"],
+    kind: "list",
+    list: {
+      items: ["Courtesy", "Integrity", "Perseverance", "Self-Control", "Indomitable Spirit"],
+      minRequired: 5,
+      ordered: true,
+    },
+    grades: ["9kup"],
+    sourceNote: "OMA theory sheet",
+  },
+  {
+    id: "q_theory_power",
+    prompt: "What is the Theory of Power in ITF Taekwon-Do?",
+    modelAnswer:
+      "The Theory of Power explains how maximum force is generated. It consists of six factors: reaction force, concentration, equilibrium (balance), breath control, speed, and mass.",
+    tags: ["theory-of-power", "basics"],
+    kind: "list",
+    list: {
+      items: ["Reaction force", "Concentration", "Equilibrium|Balance", "Breath control", "Speed", "Mass"],
+      minRequired: 6,
+      ordered: false,
+    },
+    grades: ["5kup"],
+    sourceNote: "OMA theory sheet",
+  },
+  {
+    id: "q_pattern_def",
+    prompt: "What is a pattern (tul)?",
+    modelAnswer:
+      "A pattern is a sequence of fundamental movements performed against imaginary opponents. Patterns teach correct technique, balance, power, breathing, and mental focus, and help preserve Taekwon-Do history.",
+    tags: ["patterns", "basics"],
+    keywords: ["sequence", "fundamental movements", "imaginary opponent|imaginary opponents"],
+    grades: ["8kup"],
+    sourceNote: "OMA theory sheet",
+  },
+  {
+    id: "q_itf_founded",
+    prompt: "Who founded the ITF and when?",
+    modelAnswer: "The ITF was founded in 1966 by General Choi Hong Hi.",
+    tags: ["history"],
+    keywords: ["1966", "Choi Hong Hi|General Choi"],
+    grades: ["6kup"],
+    sourceNote: "OMA theory sheet",
+  },
+  {
+    id: "q_tool_target",
+    prompt: "What is meant by ‘Tool’ and ‘Target’?",
+    modelAnswer:
+      "The tool is the body part used to strike or block (e.g., forefist, knife-hand). The target is the point on the opponent’s body that the technique is aimed at.",
+    tags: ["basics"],
+    keywords: ["body part|part of the body", "strike|block|attack", "opponent"],
+    grades: ["7kup"],
+    sourceNote: "OMA theory sheet",
+  },
+  {
+    id: "q_bending_stance_patterns",
+    prompt: "Name 3 patterns with bending (goburyo) stance.",
+    modelAnswer: "Won-Hyo, Yul-Gok, and Choong-Moo.",
+    tags: ["patterns"],
+    kind: "list",
+    list: { items: ["Won-Hyo", "Yul-Gok", "Choong-Moo"], minRequired: 3, ordered: false },
+    grades: ["1dan"],
+    sourceNote: "Black belt pointers sheet",
+  },
+  {
+    id: "q_backfist_patterns",
+    prompt: "Name 5 patterns containing backfist.",
+    modelAnswer: "Do-San, Yul-Gok, Joong-Gun, Toi-Gye, Choong-Moo.",
+    tags: ["patterns"],
+    kind: "list",
+    list: { items: ["Do-San", "Yul-Gok", "Joong-Gun", "Toi-Gye", "Choong-Moo"], minRequired: 5, ordered: false },
+    grades: ["1dan"],
+    sourceNote: "Black belt pointers sheet",
+  },
+  {
+    id: "q_fingertip_thrust_types",
+    prompt: "Name 3 types of fingertip thrust.",
+    modelAnswer: "Straight, Flat, and Upset fingertip thrust.",
+    tags: ["technique"],
+    kind: "list",
+    list: { items: ["Straight", "Flat", "Upset"], minRequired: 3, ordered: false },
+    grades: ["1dan"],
+    sourceNote: "Black belt pointers + terminology sheet",
+  },
+  {
+    id: "q_release_patterns",
+    prompt: "Name 3 patterns containing releases.",
+    modelAnswer: "Do-San, Joong-Gun, Hwa-Rang.",
+    tags: ["patterns"],
+    kind: "list",
+    list: { items: ["Do-San", "Joong-Gun", "Hwa-Rang"], minRequired: 3, ordered: false },
+    grades: ["1dan"],
+    sourceNote: "Black belt pointers sheet",
+  },
+  {
+    id: "q_slow_motion",
+    prompt: "Why do we require slow motion moves?",
+    modelAnswer:
+      "To develop balance, breath control, timing, concentration, and body awareness, and to ensure correct technique and control through the full range of motion.",
+    tags: ["patterns", "theory-of-power"],
+    keywords: ["balance", "breath control", "timing", "concentration"],
+    grades: ["1dan"],
+    sourceNote: "OMA theory sheet",
+  },
+  {
+    id: "q_itf_year_mc",
+    prompt: "In which year was the ITF founded?",
+    modelAnswer: "1966.",
+    tags: ["history"],
+    kind: "choice",
+    choice: { correct: "1966", distractors: ["1955", "1972", "1980"] },
+    grades: ["6kup"],
+    sourceNote: "OMA theory sheet",
+  },
+  {
+    id: "q_tenets_count_tf",
+    prompt: "True or false: there are five tenets of Taekwon-Do.",
+    modelAnswer: "True. Courtesy, Integrity, Perseverance, Self-Control, Indomitable Spirit.",
+    tags: ["tenets", "basics"],
+    kind: "truefalse",
+    truth: true,
+    grades: ["9kup"],
+    sourceNote: "OMA theory sheet",
+  },
+  {
+    id: "q_power_factor_mc",
+    prompt: "Which of these is one of the six factors of the Theory of Power?",
+    modelAnswer: "Equilibrium (balance).",
+    tags: ["theory-of-power"],
+    kind: "choice",
+    choice: { correct: "Equilibrium", distractors: ["Flexibility", "Endurance", "Stamina"] },
+    grades: ["5kup"],
+    sourceNote: "OMA theory sheet",
+  },
+];
+
+function computeStats(history: HistoryEntry[]) {
+  const total = history.length;
+  const correct = history.filter((h) => h.correct).length;
+  const incorrect = total - correct;
+
+  const byQuestion: Record<string, { attempts: number; correct: number; incorrect: number }> = {};
+  const byTag: Record<string, { attempts: number; correct: number; incorrect: number }> = {};
+  // qid -> item/term label -> tally, from graded attempts (list items and typed keywords)
+  const byItem: Record<string, Record<string, { attempts: number; correct: number }>> = {};
+
+  for (const h of history) {
+    byQuestion[h.qid] ??= { attempts: 0, correct: 0, incorrect: 0 };
+    byQuestion[h.qid].attempts += 1;
+    if (h.correct) byQuestion[h.qid].correct += 1;
+    else byQuestion[h.qid].incorrect += 1;
+
+    for (const t of h.tags || []) {
+      byTag[t] ??= { attempts: 0, correct: 0, incorrect: 0 };
+      byTag[t].attempts += 1;
+      if (h.correct) byTag[t].correct += 1;
+      else byTag[t].incorrect += 1;
+    }
+
+    for (const [labels, ok] of [[h.hits, true], [h.misses, false]] as const) {
+      for (const label of labels || []) {
+        byItem[h.qid] ??= {};
+        byItem[h.qid][label] ??= { attempts: 0, correct: 0 };
+        byItem[h.qid][label].attempts += 1;
+        if (ok) byItem[h.qid][label].correct += 1;
+      }
+    }
+  }
+
+  const accuracy = total ? Math.round((correct / total) * 100) : 0;
+
+  return { total, correct, incorrect, accuracy, byQuestion, byTag, byItem };
+}
+
+// One student's results loaded into the instructor view, from a backup file or a bare history array.
+type ClassStudent = { id: string; name: string; fileName: string; history: HistoryEntry[] };
+
+const INACTIVE_DAYS = 7;
+
+function readStudentFile(raw: unknown, fileName: string): { student: ClassStudent | null; errors: string[] } {
+  const fallbackName = fileName.replace(/\.[^.]+$/, "");
+  if (Array.isArray(raw)) {
+    const history = raw.filter(isHistoryEntry);
+    if (!history.length) return { student: null, errors: [`${fileName}: no history entries found.`] };
+    const skipped = raw.length - history.length;
+    return {
+      student: { id: uid(), name: fallbackName, fileName, history },
+      errors: skipped ? [`${fileName}: ${skipped} malformed entries skipped`] : [],
+    };
+  }
+  const { backup, errors } = validateBackup(raw);
+  if (!backup) return { student: null, errors: errors.map((e) => `${fileName}: ${e}`) };
+  // Older exports labelled every un-renamed profile with the placeholder name.
+  const named = backup.profileName && backup.profileName !== DEFAULT_PROFILE_NAME;
+  return {
+    student: { id: uid(), name: named ? backup.profileName! : fallbackName, fileName, history: backup.history },
+    errors: errors.filter((e) => e.startsWith("history")).map((e) => `${fileName}: ${e}`),
+  };
+}
+
+// A newer export of the same student repeats their earlier history entries, whose ids are unique per
+// attempt. Names and file names can't tell students apart: "Me" and dated file names are shared.
+function sameStudent(a: ClassStudent, b: ClassStudent): boolean {
+  const ids = new Set(a.history.map((h) => h.id));
+  return b.history.some((h) => ids.has(h.id));
+}
+
+function pct(correct: number, attempts: number): number {
+  return attempts ? Math.round((correct / attempts) * 100) : 0;
+}
+
+// Class-wide aggregation of computeStats: per student, per tag and per question.
+function computeClassReport(students: ClassStudent[], bank: Question[], now = new Date()) {
+  const since = now.getTime() - INACTIVE_DAYS * 24 * 60 * 60 * 1000;
+  const perStudent = students.map((s) => {
+    const st = computeStats(s.history);
+    const lastAt = s.history.reduce((max, h) => Math.max(max, Date.parse(h.at)), 0);
+    return {
+      id: s.id,
+      name: s.name,
+      attempts: st.total,
+      accuracy: st.accuracy,
+      thisWeek: s.history.filter((h) => Date.parse(h.at) >= since).length,
+      lastAt: lastAt ? new Date(lastAt).toISOString() : null,
+    };
+  });
+
+  const all = computeStats(students.flatMap((s) => s.history));
+  const byTag = Object.entries(all.byTag)
+    .map(([tag, v]) => ({ tag, attempts: v.attempts, acc: pct(v.correct, v.attempts) }))
+    .sort((a, b) => a.acc - b.acc || b.attempts - a.attempts);
+
+  const idToPrompt = new Map(bank.map((q) => [q.id, q.prompt]));
+  const mostMissed = Object.entries(all.byQuestion)
+    .filter(([, v]) => v.incorrect > 0)
+    .map(([qid, v]) => ({
+      qid,
+      prompt: idToPrompt.get(qid) || qid,
+      missed: v.incorrect,
+      attempts: v.attempts,
+      acc: pct(v.correct, v.attempts),
+      students: students.filter((s) => s.history.some((h) => h.qid === qid && !h.correct)).length,
+    }))
+    .sort((a, b) => b.students - a.students || b.missed - a.missed)
+    .slice(0, 10);
+
+  return {
+    generatedAt: now.toISOString(),
+    students: perStudent.sort((a, b) => a.accuracy - b.accuracy),
+    accuracy: all.accuracy,
+    attempts: all.total,
+    byTag,
+    mostMissed,
+    inactive: perStudent.filter((s) => s.thisWeek === 0).map((s) => s.name),
+  };
+}
+
+type ClassReport = ReturnType<typeof computeClassReport>;
+
+// Standalone HTML so the report prints the same from any browser.
+function classReportHtml(report: ClassReport): string {
+  const esc = textToHtml;
+  const table = (head: string[], rows: (string | number)[][]) =>
+    `<table><thead><tr>${head.map((h) => `<th>${h}</th>`).join("")}</tr></thead><tbody>${rows
+      .map((r) => `<tr>${r.map((c) => `<td>${esc(String(c))}</td>`).join("")}</tr>`)
+      .join("")}</tbody></table>`;
+
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>Class theory report</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 24px; color: #111; }
+h1 { font-size: 20px; } h2 { font-size: 16px; margin-top: 24px; }
+table { border-collapse: collapse; width: 100%; font-size: 13px; }
+th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; }
+@media print { h2 { break-after: avoid; } tr { break-inside: avoid; } }
+</style></head><body>
+<h1>Class theory report</h1>
+<p>${new Date(report.generatedAt).toLocaleString()} • ${report.students.length} students • ${report.attempts} attempts • ${report.accuracy}% class accuracy</p>
+<h2>Students</h2>
+${table(
+  ["Student", "Attempts", "Accuracy", `Last ${INACTIVE_DAYS} days`, "Last practised"],
+  report.students.map((s) => [s.name, s.attempts, `${s.accuracy}%`, s.thisWeek, s.lastAt ? new Date(s.lastAt).toLocaleDateString() : "never"]),
+)}
+<h2>Not practised this week</h2>
+<p>${report.inactive.length ? esc(report.inactive.join(", ")) : "Everyone has practised."}</p>
+<h2>Class accuracy by tag</h2>
+${table(["Tag", "Attempts", "Accuracy"], report.byTag.map((t) => [t.tag, t.attempts, `${t.acc}%`]))}
+<h2>Most missed questions</h2>
+${table(["Question", "Students missing", "Misses", "Accuracy"], report.mostMissed.map((q) => [q.prompt, q.students, `${q.missed}/${q.attempts}`, `${q.acc}%`]))}
+</body></html>`;
+}
+
+// Printed mock exams: the paper for the student and a separate answer key for the instructor.
+
+const PAPER_STYLE = `
+body { font-family: Georgia, "Times New Roman", serif; margin: 24px; color: #111; font-size: 14px; }
+h1 { font-size: 20px; margin-bottom: 4px; } .meta { color: #444; font-size: 12px; }
+.candidate { display: flex; gap: 24px; margin: 16px 0 20px; }
+.candidate span { flex: 1; border-bottom: 1px solid #111; padding-bottom: 2px; }
+ol { padding-left: 22px; } li { margin-bottom: 18px; break-inside: avoid; }
+.line { border-bottom: 1px solid #999; height: 26px; }
+.options { list-style: none; padding: 0; margin: 6px 0 0; } .options li { margin: 4px 0; }
+.source, .accept { color: #444; font-size: 12px; }
+img { max-width: 60%; max-height: 220px; display: block; margin: 6px 0; }
+@page { margin: 16mm; }
+`;
+
+function htmlAttr(value: string): string {
+  return textToHtml(value).replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+}
+
+function paperImagesHtml(images: Attachment[] | undefined, field: AttachmentField): string {
+  return (images ?? []).map((img) => `<img src="${htmlAttr(img.dataUrl)}" alt="${htmlAttr(attachmentAlt(img, field))}">`).join("");
+}
+
+function answerLineCount(q: Question): number {
+  if (isListQuestion(q)) return Math.max(3, q.list.items.length);
+  return q.modelAnswer.length > 160 ? 6 : 4;
+}
+
+function examPaperHtml(title: string, printedAt: Date, questions: Question[], options: string[][]): string {
+  const items = questions
+    .map((q, i) => {
+      const space = options[i].length
+        ? `<ul class="options">${options[i].map((o) => `<li>☐ ${textToHtml(o)}</li>`).join("")}</ul>`
+        : '<div class="line"></div>'.repeat(answerLineCount(q));
+      return `<li><div>${textToHtml(q.prompt)}</div>${paperImagesHtml(q.promptImages, "promptImages")}${space}</li>`;
+    })
+    .join("\n");
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${textToHtml(title)}</title><style>${PAPER_STYLE}</style></head><body>
+<h1>${textToHtml(title)}</h1>
+<div class="meta">${questions.length} questions • printed ${printedAt.toLocaleDateString()}</div>
+<div class="candidate"><span>Name:</span><span>Grade:</span><span>Date:</span><span>Score: &nbsp;&nbsp;&nbsp;/ ${questions.length}</span></div>
+<ol>
+${items}
+</ol>
+</body></html>`;
+}
+
+function answerKeyHtml(title: string, printedAt: Date, questions: Question[]): string {
+  const items = questions
+    .map((q) => {
+      const accept = isListQuestion(q)
+        ? `<div class="accept">Accept ${q.list.minRequired && q.list.minRequired < q.list.items.length ? `any ${q.list.minRequired} of` : "all of"}: ${textToHtml(
+            q.list.items.map(listItemLabel).join(", ")
+          )}${q.list.ordered ? " (in order)" : ""}</div>`
+        : isChoiceQuestion(q)
+          ? `<div class="accept">Correct option: ${textToHtml(correctOption(q))}</div>`
+          : "";
+      const source = q.sourceNote ? `<div class="source">Source: ${textToHtml(q.sourceNote)}</div>` : "";
+      return `<li><div><b>${textToHtml(q.prompt)}</b></div><div>${textToHtml(q.modelAnswer)}</div>${paperImagesHtml(q.answerImages, "answerImages")}${accept}${source}</li>`;
+    })
+    .join("\n");
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${textToHtml(title)} – answer key</title><style>${PAPER_STYLE}</style></head><body>
+<h1>${textToHtml(title)} – answer key</h1>
+<div class="meta">${questions.length} questions • printed ${printedAt.toLocaleDateString()} • keep separate from the paper</div>
+<ol>
+${items}
+</ol>
+</body></html>`;
+}
+
+// Progress analytics. Days are local calendar days keyed "YYYY-MM-DD".
+
+const HEATMAP_WEEKS = 26;
+
+function attemptsByDay(history: HistoryEntry[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const h of history) {
+    const k = dayKey(new Date(h.at));
+    counts.set(k, (counts.get(k) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Streaks count days meeting the daily goal. Today only breaks the current streak once it is over.
+function goalStreaks(history: HistoryEntry[], dailyGoal: number, now = new Date()) {
+  const counts = attemptsByDay(history);
+  const met = (d: Date) => (counts.get(dayKey(d)) ?? 0) >= Math.max(1, dailyGoal);
+
+  let current = 0;
+  for (let d = met(now) ? now : addDays(now, -1); met(d); d = addDays(d, -1)) current++;
+
+  let longest = 0;
+  let run = 0;
+  let prev: Date | null = null;
+  const days = [...counts.keys()].sort().map((k) => new Date(`${k}T12:00:00`));
+  for (const d of days) {
+    if (!met(d)) {
+      run = 0;
+    } else {
+      run = prev && dayKey(addDays(prev, 1)) === dayKey(d) ? run + 1 : 1;
+      prev = d;
+    }
+    longest = Math.max(longest, run);
+  }
+  return { current, longest: Math.max(longest, current) };
+}
+
+// Accuracy over the last `days` calendar days including today, overall and per tag.
+function rollingAccuracy(history: HistoryEntry[], days: number, now = new Date()) {
+  const since = addDays(now, -(days - 1));
+  since.setHours(0, 0, 0, 0);
+  const recent = history.filter((h) => Date.parse(h.at) >= since.getTime());
+  const st = computeStats(recent);
+  const byTag: Record<string, { attempts: number; acc: number }> = {};
+  for (const [tag, v] of Object.entries(st.byTag)) byTag[tag] = { attempts: v.attempts, acc: pct(v.correct, v.attempts) };
+  return { attempts: st.total, acc: st.accuracy, byTag };
+}
+
+// Running accuracy after each attempt at one question, oldest first.
+function learningCurve(history: HistoryEntry[], qid: string): { at: string; correct: boolean; acc: number }[] {
+  const attempts = history.filter((h) => h.qid === qid).sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+  let correct = 0;
+  return attempts.map((h, i) => {
+    if (h.correct) correct++;
+    return { at: h.at, correct: h.correct, acc: pct(correct, i + 1) };
+  });
+}
+
+// Mastery: each correct answer closes part of the gap to 1, each miss knocks the score down, and the
+// score then decays with time since the last attempt. A longer correct streak slows the decay.
+const MASTERY_LEVELS: MasteryLevel[] = ["new", "learning", "shaky", "mastered"];
+const MASTERY_GAIN = 0.35;
+const MASTERY_MISS_KEEP = 0.4;
+const MASTERY_HALF_LIFE_DAYS = 4;
+const MASTERY_MAX_HALF_LIFE_DAYS = 90;
+const MASTERED_SCORE = 0.8;
+const MASTERED_STREAK = 3;
+const SHAKY_SCORE = 0.5;
+
+function questionMastery(attempts: HistoryEntry[], now = new Date()): Mastery {
+  if (!attempts.length) return { score: 0, level: "new", attempts: 0, streak: 0 };
+  const ordered = [...attempts].sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+  let score = 0;
+  let peak = 0;
+  let streak = 0;
+  for (const h of ordered) {
+    score = h.correct ? score + (1 - score) * MASTERY_GAIN : score * MASTERY_MISS_KEEP;
+    streak = h.correct ? streak + 1 : 0;
+    peak = Math.max(peak, score);
+  }
+  const halfLife = Math.min(MASTERY_MAX_HALF_LIFE_DAYS, MASTERY_HALF_LIFE_DAYS * 2 ** streak);
+  const idleDays = Math.max(0, now.getTime() - Date.parse(ordered[ordered.length - 1].at)) / (24 * 60 * 60 * 1000);
+  score *= 0.5 ** (idleDays / halfLife);
+
+  const level: MasteryLevel =
+    score >= MASTERED_SCORE && streak >= MASTERED_STREAK ? "mastered" : score >= SHAKY_SCORE || peak >= MASTERED_SCORE ? "shaky" : "learning";
+  return { score, level, attempts: ordered.length, streak };
+}
+
+// Tag mastery is the mean of its attempted questions' mastery; the streak is the shortest among them.
+function computeMastery(history: HistoryEntry[], now = new Date()) {
+  const attemptsByQid: Record<string, HistoryEntry[]> = {};
+  const qidsByTag: Record<string, Set<string>> = {};
+  for (const h of history) {
+    (attemptsByQid[h.qid] ??= []).push(h);
+    for (const t of h.tags || []) (qidsByTag[t] ??= new Set()).add(h.qid);
+  }
+
+  const byQuestion: Record<string, Mastery> = {};
+  for (const [qid, attempts] of Object.entries(attemptsByQid)) byQuestion[qid] = questionMastery(attempts, now);
+
+  const byTag: Record<string, Mastery> = {};
+  for (const [tag, qids] of Object.entries(qidsByTag)) {
+    const ms = [...qids].map((qid) => byQuestion[qid]);
+    const score = ms.reduce((a, m) => a + m.score, 0) / ms.length;
+    const streak = Math.min(...ms.map((m) => m.streak));
+    const level: MasteryLevel = ms.every((m) => m.level === "mastered")
+      ? "mastered"
+      : score >= SHAKY_SCORE || ms.some((m) => m.level === "shaky")
+        ? "shaky"
+        : "learning";
+    byTag[tag] = { score, level, attempts: ms.reduce((a, m) => a + m.attempts, 0), streak };
+  }
+  return { byQuestion, byTag };
+}
+
+// Practice drills narrow the pool to a list of question ids built from the analysis.
+type DrillKind = "weakTags" | "missedExam" | "unseen" | "stale";
+type Drill = { kind: DrillKind; label: string; qids: string[]; startedAt: string };
+
+const WEAK_DRILL_TAGS = 3;
+
+function buildDrill(
+  kind: DrillKind,
+  questions: Question[],
+  history: HistoryEntry[],
+  masteryByTag: Record<string, Mastery>,
+  opts: { missedQids?: string[]; staleDays?: number; now?: Date } = {}
+): Drill {
+  const now = opts.now ?? new Date();
+  const lastSeen = new Map<string, number>();
+  for (const h of history) lastSeen.set(h.qid, Math.max(lastSeen.get(h.qid) ?? 0, Date.parse(h.at)));
+
+  let label = "";
+  let picked: Question[] = [];
+  if (kind === "weakTags") {
+    const tags = Object.entries(masteryByTag)
+      .filter(([, m]) => m.level !== "mastered")
+      .sort((a, b) => a[1].score - b[1].score)
+      .slice(0, WEAK_DRILL_TAGS)
+      .map(([tag]) => tag);
+    label = `Weakest tags: ${tags.join(", ") || "none"}`;
+    picked = questions.filter((q) => (q.tags || []).some((t) => tags.includes(t)));
+  } else if (kind === "missedExam") {
+    const missed = new Set(opts.missedQids ?? []);
+    label = "Missed in last exam";
+    picked = questions.filter((q) => missed.has(q.id));
+  } else if (kind === "unseen") {
+    label = "Never attempted";
+    picked = questions.filter((q) => !lastSeen.has(q.id));
+  } else {
+    const days = opts.staleDays ?? DEFAULT_SETTINGS.staleDays;
+    const cutoff = now.getTime() - days * 24 * 60 * 60 * 1000;
+    label = `Not seen in ${days} days`;
+    picked = questions.filter((q) => lastSeen.has(q.id) && lastSeen.get(q.id)! < cutoff);
+  }
+  return { kind, label, qids: picked.map((q) => q.id), startedAt: now.toISOString() };
+}
+
+function masteryLevel(byQuestion: Record<string, Mastery>, qid: string): MasteryLevel {
+  return byQuestion[qid]?.level ?? "new";
+}
+
+type PracticeFilters = { tags: Set<string>; levels: Set<MasteryLevel> };
+
+// An active drill replaces the tag and mastery filters.
+function practicePool(questions: Question[], filters: PracticeFilters, byQuestion: Record<string, Mastery>, drill: Drill | null): Question[] {
+  if (drill) return questions.filter((q) => drill.qids.includes(q.id));
+  return questions.filter(
+    (q) =>
+      (!filters.tags.size || (q.tags || []).some((t) => filters.tags.has(t))) &&
+      (!filters.levels.size || filters.levels.has(masteryLevel(byQuestion, q.id)))
+  );
+}
+
+// Weakness of a question = 1 - mastery of its weakest tag; unseen tags count as middling.
+function tagWeakness(q: Question, byTag: Record<string, Mastery>): number {
+  let worst = 0;
+  for (const t of q.tags || []) worst = Math.max(worst, byTag[t] ? 1 - byTag[t].score : 0.5);
+  return worst;
+}
+
+function weightedPick(candidates: Question[], count: number, weight: (q: Question) => number): Question[] {
+  const rest = [...candidates];
+  const out: Question[] = [];
+  while (out.length < count && rest.length) {
+    const weights = rest.map(weight);
+    let r = Math.random() * weights.reduce((a, b) => a + b, 0);
+    let i = 0;
+    while (i < rest.length - 1 && r >= weights[i]) r -= weights[i++];
+    out.push(rest.splice(i, 1)[0]);
+  }
+  return out;
+}
+
+// Fill each quota's minimum first, then top up to the paper length without pushing any tag past its maximum.
+function buildBlueprintExam(pool: Question[], bp: ExamBlueprint, byTag: Record<string, Mastery>) {
+  const weight = (q: Question) => 1 + 4 * clamp(bp.weakWeighting, 0, 1) * tagWeakness(q, byTag);
+  const chosen: Question[] = [];
+  const warnings: string[] = [];
+  const countFor = (tag: string) => chosen.filter((q) => (q.tags || []).includes(tag)).length;
+  const fitsMax = (q: Question) =>
+    bp.quotas.every((quota) => !(q.tags || []).includes(quota.tag) || countFor(quota.tag) < quota.max);
+
+  // One pick at a time, re-checking every maximum: a question with several tags counts toward each.
+  for (const quota of bp.quotas) {
+    while (countFor(quota.tag) < quota.min) {
+      const candidates = pool.filter((q) => !chosen.includes(q) && (q.tags || []).includes(quota.tag) && fitsMax(q));
+      if (!candidates.length) break;
+      chosen.push(...weightedPick(candidates, 1, weight));
+    }
+    if (countFor(quota.tag) < quota.min) warnings.push(`“${quota.tag}” needs ${quota.min} but only ${countFor(quota.tag)} could be found.`);
+  }
+
+  while (chosen.length < bp.length) {
+    const candidates = pool.filter((q) => !chosen.includes(q) && fitsMax(q));
+    if (!candidates.length) break;
+    chosen.push(...weightedPick(candidates, 1, weight));
+  }
+  if (chosen.length < bp.length) warnings.push(`Only ${chosen.length} of ${bp.length} questions fit the blueprint.`);
+
+  return { questions: shuffle(chosen.slice(0, bp.length)), warnings };
+}
+
+// Due/overdue cards first (most overdue first), then unseen questions, then anything else.
+function pickQuestion(pool: Question[], schedule: Schedule, excludeId?: string) {
+  if (!pool.length) return null;
+  const candidates = pool.length > 1 ? pool.filter((q) => q.id !== excludeId) : pool;
+  // Due now rather than by the end of today, so a missed card waits out its relearning step.
+  const now = new Date();
+
+  const due = candidates
+    .filter((q) => isDueBy(schedule[q.id], now))
+    .sort((a, b) => new Date(schedule[a.id].due).getTime() - new Date(schedule[b.id].due).getTime());
+  if (due.length) return due[0];
+
+  const unseen = candidates.filter((q) => !schedule[q.id]);
+  if (unseen.length) return unseen[Math.floor(Math.random() * unseen.length)];
+
+  return candidates[Math.floor(Math.random() * candidates.length)];
+}
+
+function GradeBox({ grade }: { grade: GradeResult }) {
+  const terms = grade.hits.length + grade.misses.length;
+  return (
+    <div className="gradeBox">
+      <div className="answerTitle">
+        {grade.correct ? "✓ Pass" : "✗ Miss"}
+        {terms > 1 && ` • ${Math.round(grade.score * 100)}% of required terms`}
+      </div>
+      <div className="tagRow">
+        {grade.hits.map((t) => (
+          <span key={"h" + t} className="tag termHit">✓ {t}</span>
+        ))}
+        {grade.misses.map((t) => (
+          <span key={"m" + t} className="tag termMiss">✗ {t}</span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ChoiceOptions({ options, correct, picked, onPick }: { options: string[]; correct: string; picked: string | null; onPick: (option: string) => void }) {
+  return (
+    <div className="choiceList">
+      {options.map((o) => {
+        const state = picked === null ? "" : o === correct ? " right" : o === picked ? " wrong" : "";
+        return (
+          <button key={o} className={"btn option" + state} disabled={picked !== null} onClick={() => onPick(o)}>
+            {o}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function ScoreTrend({ values }: { values: number[] }) {
+  const w = 320;
+  const h = 60;
+  if (values.length < 2) return <div className="hint">The trend line appears after two finished exams.</div>;
+  const step = w / (values.length - 1);
+  const points = values.map((v, i) => `${Math.round(i * step)},${Math.round(h - (v / 100) * h)}`).join(" ");
+  return (
+    <svg className="trend" viewBox={`0 0 ${w} ${h}`} preserveAspectRatio="none" role="img" aria-label="Exam score trend">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth="2" />
+    </svg>
+  );
+}
+
+// GitHub-style grid: one column per week, Sunday at the top, shaded by attempts that day.
+function StudyHeatmap({ counts, dailyGoal, now = new Date() }: { counts: Map<string, number>; dailyGoal: number; now?: Date }) {
+  const cell = 12;
+  const gap = 2;
+  const start = addDays(now, 6 - now.getDay() - (HEATMAP_WEEKS * 7 - 1));
+  const cells = [];
+  for (let i = 0; i < HEATMAP_WEEKS * 7; i++) {
+    const d = addDays(start, i);
+    if (d > now) break;
+    const n = counts.get(dayKey(d)) ?? 0;
+    const level = n === 0 ? 0 : n >= dailyGoal ? 1 : 0.25 + 0.5 * (n / Math.max(1, dailyGoal));
+    cells.push(
+      <rect
+        key={i}
+        x={Math.floor(i / 7) * (cell + gap)}
+        y={(i % 7) * (cell + gap)}
+        width={cell}
+        height={cell}
+        rx={2}
+        className={n ? "heatCell" : "heatCell empty"}
+        fillOpacity={n ? level : undefined}
+      >
+        <title>{`${d.toLocaleDateString()}: ${n} attempt${n === 1 ? "" : "s"}`}</title>
+      </rect>,
+    );
+  }
+  return (
+    <svg className="heatmap" viewBox={`0 0 ${HEATMAP_WEEKS * (cell + gap)} ${7 * (cell + gap)}`} role="img" aria-label="Attempts per day">
+      {cells}
+    </svg>
+  );
+}
+
+function LearningCurve({ points }: { points: { correct: boolean; acc: number }[] }) {
+  const w = 320;
+  const h = 80;
+  if (!points.length) return <div className="hint">No attempts at this question yet.</div>;
+  const step = points.length > 1 ? w / (points.length - 1) : 0;
+  const xy = points.map((p, i) => [Math.round(i * step), Math.round(h - (p.acc / 100) * (h - 8) - 4)]);
+  return (
+    <svg className="trend curve" viewBox={`-4 0 ${w + 8} ${h}`} preserveAspectRatio="none" role="img" aria-label="Learning curve">
+      <polyline points={xy.map((p) => p.join(",")).join(" ")} fill="none" stroke="currentColor" strokeWidth="2" />
+      {xy.map(([x, y], i) => (
+        <circle key={i} cx={x} cy={y} r={3} className={points[i].correct ? "dotRight" : "dotWrong"} />
+      ))}
+    </svg>
+  );
+}
+
+// A prompt picture is often the question itself ("name this stance"), and its file name can give the
+// answer away, so without an author's description it gets a neutral alt text.
+function attachmentAlt(img: Attachment, field?: AttachmentField): string {
+  return img.alt || (field === "promptImages" ? "Picture for this question" : img.name);
+}
+
+// `field` is left out where only authors see the pictures (import conflicts).
+function Attachments({ images, field }: { images?: Attachment[]; field?: AttachmentField }) {
+  if (!images?.length) return null;
+  return (
+    <div className="attachments">
+      {images.map((img, i) => (
+        <img key={i} src={img.dataUrl} alt={attachmentAlt(img, field)} />
+      ))}
+    </div>
+  );
+}
+
+// Audio drill
+
+const BROWSER_SPEECH = browserSpeech();
+
+const AUDIO_PHASE_LABEL: Record<AudioPhase, string> = {
+  prompt: "Reading the question…",
+  thinking: "Your turn: say your answer out loud",
+  choosing: "Say the option, or its number",
+  answer: "Reading the model answer…",
+  marking: "Say “correct” or “missed”",
+  onScreen: "Answer this one on screen, then say “next”",
+};
+
+// Only open questions in self-marking mode are self-marked; everything else keeps its grading.
+function audioStyle(q: Question, answerMode: Settings["answerMode"]): AudioStyle {
+  if (isChoiceQuestion(q)) return "options";
+  if (isListQuestion(q) || answerMode === "typed") return "onScreen";
+  return "selfMark";
+}
+
+function spokenPrompt(q: Question, options: string[]): string {
+  const parts = [q.prompt];
+  if (q.promptImages?.length) parts.push("This question has a picture.");
+  if (q.kind === "truefalse") parts.push("True or false?");
+  else options.forEach((o, i) => parts.push(`Option ${i + 1}: ${o}.`));
+  return parts.join(" ");
+}
+
+function ListChecklist({ list, ticked, onToggle }: { list: ListAnswer; ticked: string[]; onToggle: (label: string) => void }) {
+  return (
+    <div className="block">
+      <div className="label" style={{ fontSize: 13 }}>
+        Tick the items you named{list.ordered ? " in the right place" : ""} (need {list.minRequired || list.items.length})
+      </div>
+      <div className="tagPicker">
+        {list.items.map((item) => {
+          const label = listItemLabel(item);
+          return (
+            <button key={label} className={"chip" + (ticked.includes(label) ? " active" : "")} onClick={() => onToggle(label)}>
+              {label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+type StoredData = {
+  history: HistoryEntry[];
+  settings: Settings;
+  bank: Question[];
+  schedule: Schedule;
+  sessions: ExamSession[];
+  blueprints: ExamBlueprint[];
+};
+
+async function loadStoredData(store: AppStore<HistoryEntry>, profileId: string): Promise<StoredData> {
+  const [history, settings, bank, schedule, sessions, blueprints] = await Promise.all([
+    store.loadHistory(profileId),
+    store.get<Partial<Settings>>(profileKey(STORE_KEYS.SETTINGS, profileId)),
+    store.get<Question[]>(STORE_KEYS.BANK),
+    store.get<Schedule>(profileKey(STORE_KEYS.SCHEDULE, profileId)),
+    store.get<ExamSession[]>(profileKey(STORE_KEYS.SESSIONS, profileId)),
+    store.get<ExamBlueprint[]>(STORE_KEYS.BLUEPRINTS),
+  ]);
+  return {
+    history,
+    settings: withDefaultSettings(settings ?? {}),
+    bank: bank ?? BUILTIN_QUESTION_BANK,
+    schedule: schedule ?? {},
+    sessions: sessions ?? [],
+    blueprints: blueprints ?? DEFAULT_BLUEPRINTS,
+  };
+}
+
+type ProfileControls = {
+  profiles: Profile[];
+  active: Profile;
+  switchTo: (id: string) => void;
+  create: (name: string) => void;
+  rename: (id: string, name: string) => void;
+  remove: (id: string) => void;
+};
+
+type Loaded = { store: AppStore<HistoryEntry>; profiles: Profile[]; activeId: string; data: StoredData };
+
+async function loadProfile(store: AppStore<HistoryEntry>, profiles: Profile[], activeId: string): Promise<Loaded> {
+  return { store, profiles, activeId, data: await loadStoredData(store, activeId) };
+}
+
+// Loads the active profile, then mounts StudyApp keyed by profile so switching starts from a clean slate.
+export default function App({ speech = BROWSER_SPEECH }: { speech?: SpeechLayer }) {
+  const [loaded, setLoaded] = useState<Loaded | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [blocked, setBlocked] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      const store = await openStore<HistoryEntry>({
+        blocked: () => setBlocked(true),
+        fallback: (e) => setStorageError(`Your browser's database could not be opened (${(e as Error).message}), so data is kept in local storage instead.`),
+      });
+      setBlocked(false);
+      const stored = await store.get<Profile[]>(STORE_KEYS.PROFILES);
+      const profiles = stored?.length ? stored : [{ id: DEFAULT_PROFILE_ID, name: DEFAULT_PROFILE_NAME, createdAt: new Date().toISOString() }];
+      const activeId = (await store.get<string>(STORE_KEYS.ACTIVE_PROFILE)) ?? profiles[0].id;
+      setLoaded(await loadProfile(store, profiles, profiles.some((p) => p.id === activeId) ? activeId : profiles[0].id));
+    })().catch((e) => {
+      setBlocked(false);
+      setLoadError((e as Error).message || "unknown error");
+    });
+  }, [loadAttempt]);
+
+  useEffect(() => onStorageError(setStorageError), []);
+
+  if (!loaded) {
+    return (
+      <div className="wrap">
+        {loadError ? (
+          <div className="warnBox">
+            Could not load your data: {loadError}
+            <div className="row" style={{ marginTop: 8 }}>
+              <button
+                className="btn"
+                onClick={() => {
+                  setLoadError(null);
+                  setLoadAttempt((n) => n + 1);
+                }}
+              >
+                Try again
+              </button>
+            </div>
+          </div>
+        ) : blocked ? (
+          <div className="warnBox">This app is open in another tab with an older version. Close that tab to finish updating; this page carries on by itself.</div>
+        ) : (
+          <div className="hint">Loading your data…</div>
+        )}
+      </div>
+    );
+  }
+
+  const { store } = loaded;
+
+  async function switchTo(id: string, profiles: Profile[] = loaded!.profiles) {
+    await store.set(STORE_KEYS.PROFILES, profiles);
+    await store.set(STORE_KEYS.ACTIVE_PROFILE, id);
+    setLoaded(await loadProfile(store, profiles, id));
+  }
+
+  const controls: ProfileControls = {
+    profiles: loaded.profiles,
+    active: loaded.profiles.find((p) => p.id === loaded.activeId)!,
+    switchTo: (id) => switchTo(id).catch(reportStorageError),
+    create: (name) => {
+      const profile: Profile = { id: uid(), name, createdAt: new Date().toISOString() };
+      switchTo(profile.id, [...loaded.profiles, profile]).catch(reportStorageError);
+    },
+    rename: (id, name) => {
+      const profiles = loaded.profiles.map((p) => (p.id === id ? { ...p, name } : p));
+      store.set(STORE_KEYS.PROFILES, profiles).catch(reportStorageError);
+      setLoaded({ ...loaded, profiles });
+    },
+    remove: (id) => {
+      const profiles = loaded.profiles.filter((p) => p.id !== id);
+      if (!profiles.length) return;
+      store
+        .removeProfile(id)
+        .then(() => switchTo(id === loaded.activeId ? profiles[0].id : loaded.activeId, profiles))
+        .catch(reportStorageError);
+    },
+  };
+
+  return (
+    <>
+      {storageError && (
+        <div className="wrap bannerWrap">
+          <div className="warnBox">
+            {storageError}{" "}
+            <button className="btn" onClick={() => setStorageError(null)}>Dismiss</button>
+          </div>
+        </div>
+      )}
+      <StudyApp key={loaded.activeId} store={store} initial={loaded.data} profile={controls} speech={speech} />
+    </>
+  );
+}
+
+function StudyApp({
+  store,
+  initial,
+  profile,
+  speech,
+}: {
+  store: AppStore<HistoryEntry>;
+  initial: StoredData;
+  profile: ProfileControls;
+  speech: SpeechLayer;
+}) {
+  const profileId = profile.active.id;
+
+  const [history, setHistory] = useState<HistoryEntry[]>(initial.history);
+  const [settings, setSettings] = useState<Settings>(initial.settings);
+  const [bank, setBank] = useState<Question[]>(initial.bank);
+  const [schedule, setSchedule] = useState<Schedule>(initial.schedule);
+
+  const stats = useMemo(() => computeStats(history), [history]);
+
+  const [current, setCurrent] = useState<Question | null>(null);
+  const [practiceSeed, setPracticeSeed] = useState(""); // new for every practice question; shuffles its options
+  const [showAnswer, setShowAnswer] = useState(false);
+
+  // Typed-answer mode
+  const [typedAnswer, setTypedAnswer] = useState("");
+  const [grade, setGrade] = useState<GradeResult | null>(null);
+  const [listTicks, setListTicks] = useState<string[]>([]);
+  const [choicePick, setChoicePick] = useState<string | null>(null);
+  const [synonymText, setSynonymText] = useState(() => formatSynonyms(settings.synonyms));
+
+  const [filters, setFilters] = useState<PracticeFilters>({ tags: new Set(), levels: new Set() });
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editorText, setEditorText] = useState("");
+  const [editorErrors, setEditorErrors] = useState<string[]>([]);
+  const [importDraft, setImportDraft] = useState<ImportDraft | null>(null);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  const [pictureQid, setPictureQid] = useState("");
+  const attachInputRef = useRef<HTMLInputElement | null>(null);
+  const attachFieldRef = useRef<AttachmentField>("promptImages");
+  const [pictureDraft, setPictureDraft] = useState({ prompt: "Name this stance.", answer: "", tags: "stances", image: null as Attachment | null });
+  const [restoreDraft, setRestoreDraft] = useState<RestoreDraft | null>(null);
+  const restoreInputRef = useRef<HTMLInputElement | null>(null);
+  const [markingPaperId, setMarkingPaperId] = useState<string | null>(null);
+  const [paperMarks, setPaperMarks] = useState<Record<string, boolean>>({});
+  const [classStudents, setClassStudents] = useState<ClassStudent[]>([]);
+  const [classErrors, setClassErrors] = useState<string[]>([]);
+  const classInputRef = useRef<HTMLInputElement | null>(null);
+
+  const [blueprints, setBlueprints] = useState<ExamBlueprint[]>(initial.blueprints);
+  const [blueprintDraft, setBlueprintDraft] = useState<ExamBlueprint | null>(null);
+  const [examWarnings, setExamWarnings] = useState<string[]>([]);
+
+  const reminderTimerRef = useRef<number | null>(null);
+  const postedPlanRef = useRef(""); // last plan handed to the service worker, as JSON
+  const [reminderDelivery, setReminderDelivery] = useState<ReminderDelivery>("page");
+  const [reminderError, setReminderError] = useState<string | null>(null);
+
+  // The hand-written bank plus generated questions. Generated ones are never stored in the bank;
+  // a bank entry with the same id wins.
+  const studyBank = useMemo(() => {
+    const generated = [
+      ...(settings.glossaryCards ? glossaryQuestions(BUILTIN_GLOSSARY) : []),
+      ...(settings.patternCards ? patternQuestions(BUILTIN_PATTERNS) : []),
+    ];
+    if (!generated.length) return bank;
+    const ids = new Set(bank.map((q) => q.id));
+    return [...bank, ...generated.filter((q) => !ids.has(q.id))];
+  }, [bank, settings.glossaryCards, settings.patternCards]);
+
+  // Printed papers keep their generated questions when those cards are switched off afterwards.
+  const paperBank = useMemo(() => {
+    const byId = new Map([...glossaryQuestions(BUILTIN_GLOSSARY), ...patternQuestions(BUILTIN_PATTERNS)].map((q) => [q.id, q]));
+    for (const q of bank) byId.set(q.id, q);
+    return byId;
+  }, [bank]);
+
+  const pictureQuestion = bank.find((q) => q.id === pictureQid) ?? null;
+
+  const patternListProblems = useMemo(() => checkPatternLists(bank, BUILTIN_PATTERNS), [bank]);
+
+  // Exam mode state; an unfinished session from a previous visit is resumed where it stopped.
+  const [sessions, setSessions] = useState<ExamSession[]>(initial.sessions);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(() => sessions.find((x) => !x.finishedAt && !x.paper)?.id ?? null);
+  const resumed = sessions.find((x) => x.id === activeSessionId && !x.finishedAt);
+  const [mode, setMode] = useState<"practice" | "exam" | "examResult" | "examHistory" | "instructor" | "analytics">(() => (resumed ? "exam" : "practice"));
+  const [examOrder, setExamOrder] = useState<Question[]>(() => {
+    if (!resumed) return [];
+    const byId = new Map(studyBank.map((q) => [q.id, q]));
+    return resumed.qids.map((id) => byId.get(id)).filter((q): q is Question => !!q);
+  });
+  // Typed, choice and list answers are recorded before "Next" moves the index on, so a paper resumes
+  // at its first unanswered question rather than at the stored index.
+  const [examIndex, setExamIndex] = useState(() => {
+    if (!resumed) return 0;
+    const answered = new Set(resumed.answers.map((a) => a.qid));
+    const next = examOrder.findIndex((q) => !answered.has(q.id));
+    return next < 0 ? examOrder.length : next;
+  });
+  const [examAnswers, setExamAnswers] = useState<ExamAnswer[]>(() => resumed?.answers ?? []);
+  // Time away from the page doesn't count against a timed paper: the clock resumes from the time spent answering.
+  const [examStartedAt, setExamStartedAt] = useState(() => (resumed ? Date.now() - resumed.answers.reduce((a, x) => a + (x.ms ?? 0), 0) : 0));
+  const [questionStartedAt, setQuestionStartedAt] = useState(() => Date.now());
+  const [clock, setClock] = useState(() => Date.now());
+
+  // Theme
+  useEffect(() => {
+    document.documentElement.setAttribute("data-theme", settings.theme);
+    store.set(profileKey(STORE_KEYS.SETTINGS, profileId), settings).catch(reportStorageError);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [settings.theme]);
+
+  const allTags = useMemo(() => {
+    const s = new Set<string>();
+    for (const q of studyBank) (q.tags || []).forEach((t) => s.add(t));
+    return Array.from(s).sort();
+  }, [studyBank]);
+
+  const targetGrade = gradeById(settings.targetGrade);
+  const previousGrade = targetGrade ? CURRICULUM.find((g) => g.rank === targetGrade.rank - 1) : undefined;
+
+  const gradeBank = useMemo(() => studyBank.filter((q) => questionInScope(q, targetGrade)), [studyBank, targetGrade]);
+
+  const mastery = useMemo(() => computeMastery(history), [history]);
+
+  const [drill, setDrill] = useState<Drill | null>(null);
+
+  const pool = useMemo(
+    () => practicePool(gradeBank, filters, mastery.byQuestion, drill),
+    [gradeBank, filters, mastery.byQuestion, drill]
+  );
+
+  const syllabus = useMemo(() => {
+    if (!targetGrade) return null;
+    const s = syllabusUpTo(targetGrade);
+    const covered = new Set(gradeBank.flatMap((q) => q.tags || []));
+    return { ...s, uncoveredTheory: s.theory.filter((t) => !covered.has(t)) };
+  }, [targetGrade, gradeBank]);
+
+  const activeQuestion = mode === "exam" ? examOrder[examIndex] || null : current;
+  const optionSeed = mode === "exam" ? (activeSessionId ?? "") : practiceSeed;
+  const activeOptions = useMemo(
+    () => (activeQuestion && isChoiceQuestion(activeQuestion) ? choiceOptions(activeQuestion, studyBank, optionSeed) : []),
+    [activeQuestion, studyBank, optionSeed]
+  );
+
+  const reviewCounts = useMemo(() => {
+    const horizon = endOfDay(new Date());
+    let due = 0;
+    let fresh = 0;
+    for (const q of pool) {
+      const card = schedule[q.id];
+      if (!card) fresh += 1;
+      else if (isDueBy(card, horizon)) due += 1;
+    }
+    return { due, fresh };
+  }, [pool, schedule]);
+
+  function newPracticeQuestion(nextSchedule: Schedule = schedule, fromPool: Question[] = pool) {
+    const q = pickQuestion(fromPool, nextSchedule, current?.id);
+    setCurrent(q);
+    setPracticeSeed(uid());
+    setShowAnswer(false);
+    setTypedAnswer("");
+    setGrade(null);
+    setListTicks([]);
+    setChoicePick(null);
+  }
+
+  function logAttempt(q: Question, correct: boolean, details: AttemptDetails = {}): Schedule {
+    const entry: HistoryEntry = {
+      id: uid(),
+      qid: q.id,
+      correct,
+      at: new Date().toISOString(),
+      tags: q.tags || [],
+      ...(details.response !== undefined && { response: details.response }),
+      ...(details.grade && {
+        score: details.grade.score,
+        hits: details.grade.hits,
+        misses: details.grade.misses,
+      }),
+      ...(details.ms !== undefined && { ms: details.ms }),
+      ...(details.timedOut && { timedOut: true }),
+      ...(details.examId && { examId: details.examId }),
+      profileId,
+    };
+    setHistory([entry, ...history]);
+    store.putHistory([entry]).catch(reportStorageError);
+
+    const nextSchedule = { ...schedule, [q.id]: reviewCard(schedule[q.id], q.id, correct, new Date()) };
+    setSchedule(nextSchedule);
+    store.set(profileKey(STORE_KEYS.SCHEDULE, profileId), nextSchedule).catch(reportStorageError);
+    return nextSchedule;
+  }
+
+  function scorePractice(correct: boolean) {
+    if (!current) return;
+    const nextSchedule = logAttempt(current, correct);
+    newPracticeQuestion(nextSchedule);
+  }
+
+  function submitPracticeGrade(g: GradeResult, response: string) {
+    if (!current || grade) return;
+    logAttempt(current, g.correct, { response, grade: g });
+    setGrade(g);
+    setShowAnswer(true);
+  }
+
+  function submitPracticeTyped() {
+    if (!current) return;
+    submitPracticeGrade(gradeTypedAnswer(current, typedAnswer, settings), typedAnswer);
+  }
+
+  function submitPracticeTicks() {
+    if (!current || !isListQuestion(current)) return;
+    submitPracticeGrade(gradeListTicks(current, listTicks), listTicks.join(", "));
+  }
+
+  function pickPracticeChoice(option: string) {
+    if (!current) return;
+    setChoicePick(option);
+    submitPracticeGrade(gradeChoice(current, option), option);
+  }
+
+  function toggleListTick(label: string) {
+    setListTicks((prev) => (prev.includes(label) ? prev.filter((l) => l !== label) : [...prev, label]));
+  }
+
+  async function requestNotifications() {
+    if (!("Notification" in window)) return false;
+    const perm = await Notification.requestPermission();
+    return perm === "granted";
+  }
+
+  const notificationTitle = profile.profiles.length > 1 ? `ITF Theory Mock Test • ${profile.active.name}` : "ITF Theory Mock Test";
+
+  function fireReminderNotification(entry: ReminderEntry) {
+    showDueReminder(notificationTitle, entry.body).catch((e) => setReminderError(`Could not show a reminder: ${(e as Error).message}`));
+  }
+
+  function reminderContext(): ReminderContext {
+    return {
+      todayCount,
+      streak: goalStreaks(history, settings.dailyGoal).current,
+      dueBy: (day) => gradeBank.filter((q) => isDueBy(schedule[q.id], endOfDay(day))).length,
+    };
+  }
+
+  // The service worker gets the next two weeks of reminders. While this page is open a timer also
+  // asks it to show anything due, unless the OS already holds the reminders as scheduled notifications.
+  // Most attempts leave the plan as it was; then nothing is posted or re-timed.
+  function scheduleReminderLoop(nextSettings?: Settings) {
+    const s = nextSettings || settings;
+    const entries = reminderSchedule(s, reminderContext());
+    const plan: ReminderPlan = { enabled: s.reminderEnabled, title: notificationTitle, entries };
+    const planJson = JSON.stringify(plan);
+    if (planJson === postedPlanRef.current) return;
+    postedPlanRef.current = planJson;
+
+    if (reminderTimerRef.current) {
+      clearTimeout(reminderTimerRef.current);
+      reminderTimerRef.current = null;
     }
-    if (!s.reminderEnabled) return;
+    scheduleReminders(plan)
+      .then((delivery) => {
+        setReminderDelivery(delivery);
+        if (delivery === "triggers" && reminderTimerRef.current) {
+          clearTimeout(reminderTimerRef.current);
+          reminderTimerRef.current = null;
+        }
+      })
+      .catch((e) => {
+        postedPlanRef.current = "";
+        setReminderError(`Could not schedule reminders: ${(e as Error).message}`);
+      });
+    const next = entries[0];
+    if (!next) return;
+    reminderTimerRef.current = window.setTimeout(() => {
+      reminderTimerRef.current = null;
+      postedPlanRef.current = "";
+      fireReminderNotification(next);
+      scheduleReminderLoop(s);
+    }, Math.max(0, next.at - Date.now()));
+  }
+
+  useEffect(() => {
+    if (!current) newPracticeQuestion();
+    // A resumed paper whose last answer was recorded but never moved past is finished now.
+    if (resumed && examIndex >= examOrder.length) finishExam(examAnswers);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    store.set(profileKey(STORE_KEYS.SETTINGS, profileId), settings).catch(reportStorageError);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [settings]);
+
+  // Rebuilt after every attempt too: today's reminders depend on the goal, streak and due cards.
+  useEffect(() => {
+    scheduleReminderLoop(settings);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [settings, history, schedule]);
+
+  useEffect(() => {
+    store.set(STORE_KEYS.BANK, bank).catch(reportStorageError);
+  }, [store, bank]);
+
+  useEffect(() => {
+    store.set(profileKey(STORE_KEYS.SESSIONS, profileId), sessions).catch(reportStorageError);
+  }, [store, profileId, sessions]);
+
+  useEffect(() => {
+    store.set(STORE_KEYS.BLUEPRINTS, blueprints).catch(reportStorageError);
+  }, [store, blueprints]);
+
+  const todayCount = useMemo(() => {
+    const today = new Date();
+    const y = today.getFullYear();
+    const m = today.getMonth();
+    const d = today.getDate();
+    return history.filter((h) => {
+      const dt = new Date(h.at);
+      return dt.getFullYear() === y && dt.getMonth() === m && dt.getDate() === d;
+    }).length;
+  }, [history]);
+
+  const analytics = useMemo(() => {
+    if (mode !== "analytics") return null;
+    const week = rollingAccuracy(history, 7);
+    const month = rollingAccuracy(history, 30);
+    const tags = Object.entries(stats.byTag)
+      .map(([tag, v]) => ({ tag, lifetime: pct(v.correct, v.attempts), week: week.byTag[tag], month: month.byTag[tag] }))
+      .sort((a, b) => (a.month?.acc ?? a.lifetime) - (b.month?.acc ?? b.lifetime));
+    return { streaks: goalStreaks(history, settings.dailyGoal), week, month, tags, counts: attemptsByDay(history) };
+  }, [mode, history, stats.byTag, settings.dailyGoal]);
+  const [curveQid, setCurveQid] = useState("");
+  const attemptedQuestions = studyBank.filter((q) => stats.byQuestion[q.id]);
+  const curveQuestion = attemptedQuestions.find((q) => q.id === curveQid) ?? attemptedQuestions[0];
+
+  const gradingDaysLeft = daysUntil(settings.gradingDate);
+  const studyPlan = useMemo(
+    () => buildStudyPlan(gradeBank, mastery.byQuestion, settings.gradingDate),
+    [gradeBank, mastery.byQuestion, settings.gradingDate]
+  );
+
+  const goalPct = settings.dailyGoal ? clamp(Math.round((todayCount / settings.dailyGoal) * 100), 0, 100) : 0;
+
+  function toggleTag(t: string) {
+    setFilters((f) => {
+      const next = new Set(f.tags);
+      if (next.has(t)) next.delete(t);
+      else next.add(t);
+      return { ...f, tags: next };
+    });
+  }
+
+  function toggleLevel(level: MasteryLevel) {
+    setFilters((f) => {
+      const next = new Set(f.levels);
+      if (next.has(level)) next.delete(level);
+      else next.add(level);
+      return { ...f, levels: next };
+    });
+  }
+
+  function startDrill(kind: DrillKind, missedQids?: string[]) {
+    const next = buildDrill(kind, gradeBank, history, mastery.byTag, { missedQids, staleDays: settings.staleDays });
+    if (!next.qids.length) {
+      alert(`No questions to drill for “${next.label}”.`);
+      return;
+    }
+    setDrill(next);
+    setMode("practice");
+    newPracticeQuestion(schedule, practicePool(gradeBank, filters, mastery.byQuestion, next));
+  }
+
+  function endDrill() {
+    setDrill(null);
+    newPracticeQuestion(schedule, practicePool(gradeBank, filters, mastery.byQuestion, null));
+  }
+
+  function openEditor() {
+    setEditorText(JSON.stringify(bank, null, 2));
+    setEditorErrors([]);
+    setEditorOpen(true);
+  }
+
+  function saveEditor() {
+    try {
+      const parsed = JSON.parse(editorText);
+      const { questions, errors } = validateBankEntries(parsed);
+      if (errors.length) {
+        setEditorErrors(errors);
+        return;
+      }
+      setBank(questions);
+      setEditorErrors([]);
+      setEditorOpen(false);
+    } catch (e: any) {
+      setEditorErrors([e?.message || "Could not save bank."]);
+    }
+  }
+
+  async function importBankFile(file: File) {
+    try {
+      const text = await file.text();
+      const name = file.name.toLowerCase();
+      const raw = name.endsWith(".csv")
+        ? rowsToEntries(csvToRows(text), bank)
+        : name.endsWith(".txt") || name.endsWith(".tsv")
+          ? rowsToEntries(ankiToRows(text), bank)
+          : JSON.parse(text);
+      const { questions, errors } = validateBankEntries(raw, bank);
+      setImportDraft({ fileName: file.name, errors, ...diffImport(bank, questions) });
+    } catch (e) {
+      alert(`Could not read ${file.name}: ${(e as Error).message}`);
+    }
+  }
+
+  function setConflictChoice(i: number, choice: MergeChoice) {
+    setImportDraft((d) => d && { ...d, conflicts: d.conflicts.map((c, j) => (j === i ? { ...c, choice } : c)) });
+  }
+
+  function confirmImport() {
+    if (!importDraft) return;
+    setBank(applyImport(bank, importDraft));
+    setImportDraft(null);
+  }
+
+  async function attachImage(file: File) {
+    const field = attachFieldRef.current;
+    try {
+      const image = await readImageFile(file);
+      setBank((b) => b.map((q) => (q.id === pictureQid ? { ...q, [field]: [...(q[field] ?? []), image] } : q)));
+    } catch (e) {
+      alert(`Could not read ${file.name}: ${(e as Error).message}`);
+    }
+  }
+
+  function setImageAlt(field: AttachmentField, index: number, alt: string) {
+    setBank((b) =>
+      b.map((q) =>
+        q.id === pictureQid ? { ...q, [field]: (q[field] ?? []).map((img, i) => (i === index ? { ...img, alt } : img)) } : q
+      )
+    );
+  }
+
+  function removeImage(field: AttachmentField, index: number) {
+    setBank((b) =>
+      b.map((q) => {
+        if (q.id !== pictureQid) return q;
+        const images = (q[field] ?? []).filter((_, i) => i !== index);
+        const next = { ...q, [field]: images };
+        if (!images.length) delete next[field];
+        return next;
+      })
+    );
+  }
+
+  async function pickPictureQuestionImage(file: File) {
+    try {
+      const image = await readImageFile(file);
+      setPictureDraft((d) => ({ ...d, image }));
+    } catch (e) {
+      alert(`Could not read ${file.name}: ${(e as Error).message}`);
+    }
+  }
+
+  // Image-only question: the picture carries the question, the prompt is a short instruction.
+  function addPictureQuestion() {
+    const { prompt, answer, tags, image } = pictureDraft;
+    if (!image) return;
+    const q: Question = {
+      id: slugId(`${prompt} ${answer}`, new Set(bank.map((x) => x.id))),
+      prompt: prompt.trim(),
+      modelAnswer: answer.trim(),
+      tags: parseTagCell(tags),
+      promptImages: [image],
+    };
+    const errors = validateQuestionEntry(q);
+    if (errors.length) {
+      alert(errors.join("\n"));
+      return;
+    }
+    setBank([...bank, q]);
+    setPictureQid(q.id);
+    setPictureDraft((d) => ({ ...d, answer: "", image: null }));
+  }
+
+  function downloadFile(fileName: string, content: string, type: string) {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  function exportReminderCalendar() {
+    const events = reminderEvents(settings);
+    if (!events.length) {
+      alert("Pick at least one reminder day first.");
+      return;
+    }
+    downloadFile("itf-theory-reminders.ics", buildCalendar("Taekwon-Do theory reminders", events), "text/calendar");
+  }
+
+  function exportStudyPlanCalendar() {
+    const events = studyPlanEvents(studyPlan, settings.gradingDate, targetGrade?.label ?? "");
+    downloadFile(`itf-theory-study-plan-${settings.gradingDate}.ics`, buildCalendar("Taekwon-Do grading plan", events), "text/calendar");
+  }
+
+  function exportBank() {
+    downloadFile("itf-theory-question-bank.json", JSON.stringify(bank, null, 2), "application/json");
+  }
+
+  function exportBackup() {
+    const named = profile.active.name !== DEFAULT_PROFILE_NAME;
+    const backup: BackupFile = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      bank,
+      history,
+      settings,
+      sessions,
+      schedule,
+      blueprints,
+      ...(named && { profileName: profile.active.name }),
+    };
+    const stamp = new Date().toISOString().slice(0, 10);
+    const who = named ? `-${normalizeAnswer(profile.active.name).replace(/ /g, "-")}` : "";
+    downloadFile(`itf-theory-backup${who}-${stamp}.json`, JSON.stringify(backup), "application/json");
+  }
+
+  async function readBackupFile(file: File) {
+    try {
+      const { backup, errors } = validateBackup(JSON.parse(await file.text()));
+      if (!backup) {
+        alert(errors.join("\n"));
+        return;
+      }
+      setRestoreDraft({ fileName: file.name, backup, errors, mode: "merge" });
+    } catch (e) {
+      alert(`Could not read ${file.name}: ${(e as Error).message}`);
+    }
+  }
+
+  async function loadClassFiles(files: File[]) {
+    const errors: string[] = [];
+    const added: ClassStudent[] = [];
+    for (const file of files) {
+      try {
+        const { student, errors: fileErrors } = readStudentFile(JSON.parse(await file.text()), file.name);
+        errors.push(...fileErrors);
+        if (student) added.push(student);
+      } catch (e) {
+        errors.push(`Could not read ${file.name}: ${(e as Error).message}`);
+      }
+    }
+    // Reloading a student's newer export replaces the older one.
+    let next = classStudents;
+    for (const student of added) next = [...next.filter((s) => !sameStudent(s, student)), student];
+    setClassStudents(next);
+    setClassErrors(errors);
+  }
+
+  function printHtml(html: string) {
+    const w = window.open("", "_blank");
+    if (!w) {
+      alert("Allow pop-ups to print, or use Download instead.");
+      return;
+    }
+    w.document.write(html);
+    w.document.close();
+    w.focus();
+    w.print();
+  }
+
+  function printClassReport() {
+    printHtml(classReportHtml(classReport));
+  }
+
+  function downloadClassReport() {
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadFile(`itf-class-report-${stamp}.html`, classReportHtml(classReport), "text/html");
+  }
+
+  async function confirmRestore() {
+    if (!restoreDraft) return;
+    const { mode: restoreMode } = restoreDraft;
+    // A backup restores into whichever profile is active. History ids are global in the store, so rows
+    // another profile on this device already holds (a classmate's backup restored here) get a new id
+    // rather than being moved over; the id is derived so restoring twice doesn't duplicate them.
+    let owners: Map<string, string>;
+    try {
+      owners = await store.historyOwners(restoreDraft.backup.history.map((h) => h.id));
+    } catch (e) {
+      reportStorageError(e);
+      return;
+    }
+    const restoredHistory = restoreDraft.backup.history.map((h) => {
+      const owner = owners.get(h.id);
+      return { ...h, id: owner && owner !== profileId ? `${h.id}@${profileId}` : h.id, profileId };
+    });
+    const backup = { ...restoreDraft.backup, history: restoredHistory };
+
+    const nextHistory =
+      restoreMode === "replace"
+        ? backup.history
+        : mergeById(history, backup.history).sort((a, b) => Date.parse(b.at) - Date.parse(a.at));
+    const nextSchedule = restoreMode === "replace" ? backup.schedule : mergeSchedules(schedule, backup.schedule);
+
+    setHistory(nextHistory);
+    const knownIds = new Set(history.map((h) => h.id));
+    const added = backup.history.filter((h) => !knownIds.has(h.id));
+    (restoreMode === "replace" ? store.replaceHistory(profileId, nextHistory) : store.putHistory(added)).catch(reportStorageError);
+    setSchedule(nextSchedule);
+    store.set(profileKey(STORE_KEYS.SCHEDULE, profileId), nextSchedule).catch(reportStorageError);
+
+    if (restoreMode === "replace") {
+      setBank(backup.bank);
+      setSettings(backup.settings);
+      setSynonymText(formatSynonyms(backup.settings.synonyms));
+      setSessions(backup.sessions);
+      setBlueprints(backup.blueprints.length ? backup.blueprints : DEFAULT_BLUEPRINTS);
+    } else {
+      // Merging keeps my bank and settings; questions only the backup knows are added so its history has prompts.
+      setBank(mergeById(bank, backup.bank));
+      setSessions(mergeById(sessions, backup.sessions.map((x) => (x.finishedAt || x.paper ? x : { ...x, finishedAt: x.startedAt, abandoned: true }))));
+      setBlueprints(mergeById(blueprints, backup.blueprints));
+    }
+
+    setActiveSessionId(null);
+    setMode("practice");
+    setRestoreDraft(null);
+  }
+
+  function exportBankCsv() {
+    downloadFile("itf-theory-question-bank.csv", "\uFEFF" + bankToCsv(bank), "text/csv;charset=utf-8");
+  }
+
+  function exportBankAnki() {
+    downloadFile("itf-theory-question-bank-anki.txt", bankToAnki(bank), "text/plain;charset=utf-8");
+  }
+
+  // Weak areas
+  const classReport = useMemo(() => computeClassReport(classStudents, studyBank), [classStudents, studyBank]);
+
+  const weakestTags = useMemo(() => {
+    const rows = Object.entries(mastery.byTag).map(([tag, m]) => ({ tag, ...m }));
+    // prioritize: not yet mastered + lowest current mastery
+    rows.sort((a, b) => (a.score - b.score) || (b.attempts - a.attempts));
+    return rows.filter(r => r.level !== "mastered").slice(0, 5);
+  }, [mastery.byTag]);
+
+  const weakestQuestions = useMemo(() => {
+    const rows = Object.entries(mastery.byQuestion).map(([qid, m]) => ({ qid, ...m }));
+    rows.sort((a, b) => (a.score - b.score) || (b.attempts - a.attempts));
+    const idToPrompt = new Map(studyBank.map(q => [q.id, q.prompt]));
+    return rows
+      .filter(r => r.level !== "mastered")
+      .slice(0, 5)
+      .map(r => ({ ...r, prompt: idToPrompt.get(r.qid) || r.qid }));
+  }, [mastery.byQuestion, studyBank]);
+
+  const levelCounts = useMemo(() => {
+    const counts: Record<MasteryLevel, number> = { new: 0, learning: 0, shaky: 0, mastered: 0 };
+    for (const q of gradeBank) counts[masteryLevel(mastery.byQuestion, q.id)] += 1;
+    return counts;
+  }, [gradeBank, mastery.byQuestion]);
+
+  const weakestItems = useMemo(() => {
+    const idToPrompt = new Map(studyBank.map(q => [q.id, q.prompt]));
+    const rows = Object.entries(stats.byItem).flatMap(([qid, items]) =>
+      Object.entries(items).map(([item, v]) => ({
+        key: qid + "::" + item,
+        item,
+        prompt: idToPrompt.get(qid) || qid,
+        attempts: v.attempts,
+        acc: v.attempts ? Math.round((v.correct / v.attempts) * 100) : 0,
+      }))
+    );
+    rows.sort((a, b) => (a.acc - b.acc) || (b.attempts - a.attempts));
+    return rows.filter(r => r.attempts >= 2 && r.acc < 100).slice(0, 5);
+  }, [stats.byItem, studyBank]);
+
+  // Exam mode
+  function beginExam(questions: Question[], origin?: ExamSession["origin"], blueprintId?: string, warnings: string[] = []) {
+    const now = Date.now();
+    const session: ExamSession = {
+      id: uid(),
+      startedAt: new Date(now).toISOString(),
+      filterTags: Array.from(filters.tags),
+      qids: questions.map((q) => q.id),
+      answers: [],
+      index: 0,
+      ...(origin && { origin }),
+      ...(blueprintId && { blueprintId }),
+    };
+    // Only one paper can be in progress; an unfinished one is abandoned when a new one starts.
+    setSessions((prev) => [
+      session,
+      ...prev.map((x) => (x.finishedAt || x.paper ? x : { ...x, finishedAt: session.startedAt, abandoned: true })),
+    ]);
+    setActiveSessionId(session.id);
+
+    setExamOrder(questions);
+    setExamWarnings(warnings);
+    setExamIndex(0);
+    setExamAnswers([]);
+    setExamStartedAt(now);
+    setQuestionStartedAt(now);
+    setClock(now);
+    setShowAnswer(false);
+    setTypedAnswer("");
+    setGrade(null);
+    setListTicks([]);
+    setChoicePick(null);
+    setMode("exam");
+  }
+
+  const activeBlueprint = blueprints.find((b) => b.id === settings.blueprintId) || null;
+
+  // The active blueprint, or a shuffle of testLength questions from the current filter.
+  function selectExamQuestions(): { questions: Question[]; warnings: string[]; blueprintId?: string } {
+    if (activeBlueprint) return { ...buildBlueprintExam(pool, activeBlueprint, mastery.byTag), blueprintId: activeBlueprint.id };
+    const len = clamp(settings.testLength || 10, 5, 50);
+    return { questions: shuffle(pool).slice(0, Math.min(len, pool.length)), warnings: [] };
+  }
+
+  function startExam() {
+    const { questions, warnings, blueprintId } = selectExamQuestions();
+    if (!questions.length) {
+      alert(["No questions fit this exam.", ...warnings].join("\n"));
+      return;
+    }
+    beginExam(questions, undefined, blueprintId, warnings);
+  }
+
+  // Paper exams
+
+  function paperTitle(session: ExamSession): string {
+    const bp = blueprints.find((b) => b.id === session.blueprintId);
+    return `Taekwon-Do theory mock exam${bp ? ` – ${bp.name}` : ""}${targetGrade ? ` (${targetGrade.label})` : ""}`;
+  }
+
+  function printPaper(session: ExamSession, part: "paper" | "key") {
+    const questions = paperQuestions(session.qids);
+    const printedAt = new Date();
+    printHtml(
+      part === "paper"
+        ? examPaperHtml(paperTitle(session), printedAt, questions, questions.map((q) => (isChoiceQuestion(q) ? choiceOptions(q, studyBank, session.id) : [])))
+        : answerKeyHtml(paperTitle(session), printedAt, questions)
+    );
+  }
+
+  function createPaperExam() {
+    const { questions, warnings, blueprintId } = selectExamQuestions();
+    if (!questions.length) {
+      alert(["No questions fit this exam.", ...warnings].join("\n"));
+      return;
+    }
+    const session: ExamSession = {
+      id: uid(),
+      startedAt: new Date().toISOString(),
+      filterTags: Array.from(filters.tags),
+      qids: questions.map((q) => q.id),
+      answers: [],
+      index: 0,
+      paper: true,
+      ...(blueprintId && { blueprintId }),
+    };
+    setSessions((prev) => [session, ...prev]);
+    // Print first: the print window has to open straight from the click or it is blocked as a pop-up.
+    printPaper(session, "paper");
+    if (warnings.length) alert(warnings.join("\n"));
+  }
+
+  function startMarking(session: ExamSession) {
+    setMarkingPaperId(session.id);
+    setPaperMarks({});
+  }
+
+  // Marks entered from the marking sheet are logged like exam answers: one history entry per question.
+  function saveMarks(session: ExamSession) {
+    const questions = paperQuestions(session.qids);
+    if (questions.some((q) => paperMarks[q.id] === undefined)) {
+      alert("Mark every question as right or wrong first.");
+      return;
+    }
+    const now = new Date();
+    const entries: HistoryEntry[] = questions.map((q) => ({
+      id: uid(),
+      qid: q.id,
+      correct: paperMarks[q.id],
+      at: now.toISOString(),
+      tags: q.tags || [],
+      examId: session.id,
+      profileId,
+    }));
+    setHistory([...entries, ...history]);
+    store.putHistory(entries).catch(reportStorageError);
+
+    const nextSchedule = { ...schedule };
+    for (const e of entries) nextSchedule[e.qid] = reviewCard(schedule[e.qid], e.qid, e.correct, now);
+    setSchedule(nextSchedule);
+    store.set(profileKey(STORE_KEYS.SCHEDULE, profileId), nextSchedule).catch(reportStorageError);
+
+    const answers = entries.map((e) => ({ qid: e.qid, correct: e.correct }));
+    const correct = answers.filter((a) => a.correct).length;
+    updateSession(session.id, {
+      qids: answers.map((a) => a.qid),
+      answers,
+      index: answers.length,
+      finishedAt: now.toISOString(),
+      score: { correct, total: answers.length, pct: answers.length ? Math.round((correct / answers.length) * 100) : 0 },
+    });
+    setMarkingPaperId(null);
+  }
+
+  function discardPaper(session: ExamSession) {
+    if (!confirm("Discard this unmarked paper?")) return;
+    setSessions((prev) => prev.filter((x) => x.id !== session.id));
+    if (markingPaperId === session.id) setMarkingPaperId(null);
+  }
+
+  // Blueprints
+  function newBlueprint() {
+    setBlueprintDraft({ id: uid(), name: "New blueprint", length: settings.testLength, quotas: [], weakWeighting: 0 });
+  }
+
+  function saveBlueprint() {
+    if (!blueprintDraft) return;
+    const draft = {
+      ...blueprintDraft,
+      name: blueprintDraft.name.trim() || "Untitled blueprint",
+      quotas: blueprintDraft.quotas.filter((q) => q.tag).map((q) => ({ ...q, max: Math.max(q.min, q.max) })),
+    };
+    const minTotal = draft.quotas.reduce((a, q) => a + q.min, 0);
+    if (minTotal > draft.length) {
+      alert(`The quota minimums add up to ${minTotal}, more than the paper length of ${draft.length}.`);
+      return;
+    }
+    setBlueprints((prev) => (prev.some((b) => b.id === draft.id) ? prev.map((b) => (b.id === draft.id ? draft : b)) : [...prev, draft]));
+    setBlueprintDraft(null);
+  }
+
+  function deleteBlueprint(id: string) {
+    if (!confirm("Delete this blueprint?")) return;
+    setBlueprints((prev) => prev.filter((b) => b.id !== id));
+    if (settings.blueprintId === id) setSettings({ ...settings, blueprintId: "" });
+    setBlueprintDraft(null);
+  }
+
+  function updateQuota(i: number, patch: Partial<BlueprintQuota>) {
+    setBlueprintDraft((d) => d && { ...d, quotas: d.quotas.map((q, j) => (j === i ? { ...q, ...patch } : q)) });
+  }
+
+  function updateSession(id: string | null, patch: Partial<ExamSession>) {
+    if (!id) return;
+    setSessions((prev) => prev.map((x) => (x.id === id ? { ...x, ...patch } : x)));
+  }
+
+  function currentExamQ() {
+    return examOrder[examIndex] || null;
+  }
+
+  function recordExamAnswers(added: ExamAnswer[]): ExamAnswer[] {
+    const next = [...examAnswers, ...added];
+    setExamAnswers(next);
+    updateSession(activeSessionId, { answers: next });
+    return next;
+  }
+
+  function finishExam(answers: ExamAnswer[]) {
+    const correct = answers.filter((a) => a.correct).length;
+    const total = examOrder.length;
+    updateSession(activeSessionId, {
+      answers,
+      index: total,
+      finishedAt: new Date().toISOString(),
+      score: { correct, total, pct: total ? Math.round((correct / total) * 100) : 0 },
+    });
+    setMode("examResult");
+  }
+
+  function abandonExam() {
+    if (!confirm("Abandon this exam? Answers so far stay in your history.")) return;
+    updateSession(activeSessionId, { finishedAt: new Date().toISOString(), abandoned: true });
+    setActiveSessionId(null);
+    setMode("practice");
+  }
+
+  function advanceExam(answers: ExamAnswer[] = examAnswers) {
+    const nextIndex = examIndex + 1;
+    if (nextIndex >= examOrder.length) {
+      finishExam(answers);
+      return;
+    }
+    setExamIndex(nextIndex);
+    updateSession(activeSessionId, { index: nextIndex });
+    setQuestionStartedAt(Date.now());
+    setShowAnswer(false);
+    setTypedAnswer("");
+    setGrade(null);
+    setListTicks([]);
+    setChoicePick(null);
+  }
+
+  function answerExam(correct: boolean) {
+    const q = currentExamQ();
+    if (!q) return;
+
+    const ms = Date.now() - questionStartedAt;
+    logAttempt(q, correct, { ms, examId: activeSessionId ?? undefined });
+    advanceExam(recordExamAnswers([{ qid: q.id, correct, ms }]));
+  }
+
+  function submitExamGrade(q: Question, g: GradeResult, response: string) {
+    if (grade) return;
+    const ms = Date.now() - questionStartedAt;
+    logAttempt(q, g.correct, { response, grade: g, ms, examId: activeSessionId ?? undefined });
+    recordExamAnswers([{ qid: q.id, correct: g.correct, grade: g, ms }]);
+    setGrade(g);
+    setShowAnswer(true);
+  }
+
+  // Timed exams: a question that runs out of time counts as missed and the paper moves on.
+  const questionLimitMs = settings.questionTimeLimitSec > 0 ? settings.questionTimeLimitSec * 1000 : 0;
+  const examLimitMs = settings.examTimeLimitMin > 0 ? settings.examTimeLimitMin * 60 * 1000 : 0;
+  const questionTimeLeftMs = questionLimitMs ? questionLimitMs - (clock - questionStartedAt) : null;
+  const examTimeLeftMs = examLimitMs ? examLimitMs - (clock - examStartedAt) : null;
+
+  function timeOutQuestion() {
+    const q = currentExamQ();
+    if (!q || grade) return;
+    logAttempt(q, false, { ms: questionLimitMs, timedOut: true, examId: activeSessionId ?? undefined });
+    advanceExam(recordExamAnswers([{ qid: q.id, correct: false, ms: questionLimitMs, timedOut: true }]));
+  }
+
+  function expireExam() {
+    const q = currentExamQ();
+    const pending: ExamAnswer[] = [];
+    if (q && !grade) {
+      const ms = Date.now() - questionStartedAt;
+      logAttempt(q, false, { ms, timedOut: true, examId: activeSessionId ?? undefined });
+      pending.push({ qid: q.id, correct: false, ms, timedOut: true });
+    }
+    // Questions never reached are scored as missed but not logged as attempts.
+    for (const rest of examOrder.slice(examIndex + 1)) pending.push({ qid: rest.id, correct: false, timedOut: true });
+    finishExam(recordExamAnswers(pending));
+  }
+
+  // Exam history
+  const activeSession = sessions.find((x) => x.id === activeSessionId) || null;
+
+  const finishedSessions = useMemo(
+    () => sessions.filter((x) => x.finishedAt && !x.abandoned && x.score),
+    [sessions]
+  );
+  const unmarkedPapers = sessions.filter((x) => x.paper && !x.finishedAt);
+  const markingPaper = unmarkedPapers.find((x) => x.id === markingPaperId) ?? null;
+  const lastExamMissed = finishedSessions[0]?.answers.filter((a) => !a.correct).map((a) => a.qid) ?? [];
+
+  const drillProgress = useMemo(() => {
+    if (!drill) return 0;
+    const since = Date.parse(drill.startedAt);
+    return new Set(history.filter((h) => Date.parse(h.at) >= since && drill.qids.includes(h.qid)).map((h) => h.qid)).size;
+  }, [drill, history]);
+
+  // Every question printed on a paper, so it can be marked in full; one deleted from the bank since
+  // keeps its id and is shown by id.
+  function paperQuestions(qids: string[]): Question[] {
+    return qids.map((id) => paperBank.get(id) ?? { id, prompt: `Question ${id} (no longer in the bank)`, modelAnswer: "", tags: [] });
+  }
 
-    const ms = nextReminderDelayMs(s);
-    reminderTimerRef.current = window.setTimeout(() => {
-      fireReminderNotification();
-      scheduleReminderLoop(s);
-    }, ms);
+  function sessionQuestions(qids: string[]): Question[] {
+    const byId = new Map(studyBank.map((q) => [q.id, q]));
+    return qids.map((id) => byId.get(id)).filter((q): q is Question => !!q);
   }
 
-  useEffect(() => {
-    if (!current) newPracticeQuestion();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  function retakeSession(session: ExamSession, missedOnly: boolean) {
+    const missed = new Set(session.answers.filter((a) => !a.correct).map((a) => a.qid));
+    const qids = missedOnly ? session.qids.filter((id) => missed.has(id)) : session.qids;
+    const questions = sessionQuestions(qids);
+    if (!questions.length) {
+      alert("None of those questions are in the bank any more.");
+      return;
+    }
+    beginExam(questions, { kind: missedOnly ? "missed" : "retake", sessionId: session.id });
+  }
 
-  useEffect(() => {
-    saveJSON(LS_KEYS.SETTINGS, settings);
-    scheduleReminderLoop(settings);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [settings]);
+  // Short exam started from a reminder notification; due and unseen questions first, like practice.
+  function startQuickQuiz(count: number) {
+    if (mode === "exam") return;
+    const rest = [...pool];
+    const chosen: Question[] = [];
+    while (chosen.length < count && rest.length) {
+      const q = pickQuestion(rest, schedule)!;
+      chosen.push(q);
+      rest.splice(rest.indexOf(q), 1);
+    }
+    if (chosen.length) beginExam(chosen);
+  }
 
+  const quizRequestRef = useRef<(count: number) => void>(() => {});
   useEffect(() => {
-    saveJSON(LS_KEYS.BANK, bank);
-  }, [bank]);
+    quizRequestRef.current = startQuickQuiz;
+  });
+  useEffect(() => onQuizRequest((count) => quizRequestRef.current(count)), []);
 
-  const todayCount = useMemo(() => {
-    const today = new Date();
-    const y = today.getFullYear();
-    const m = today.getMonth();
-    const d = today.getDate();
-    return history.filter((h) => {
-      const dt = new Date(h.at);
-      return dt.getFullYear() === y && dt.getMonth() === m && dt.getDate() === d;
-    }).length;
-  }, [history]);
+  // Audio drill: read the prompt, then either take a spoken option, or pause, read the model answer and
+  // wait for a self-mark by voice or media key. Typed and list answers still have to be given on screen.
+  const [audioDrill, setAudioDrill] = useState(false);
+  const [audioPhase, setAudioPhase] = useState<AudioPhase>("prompt");
+  const [audioRound, setAudioRound] = useState(0); // bumped by "repeat"
+  const audioRunRef = useRef<AudioRun>({ cancelled: true });
+  const audioQuestion = audioDrill && (mode === "practice" || mode === "exam") ? activeQuestion : null;
 
-  const goalPct = settings.dailyGoal ? clamp(Math.round((todayCount / settings.dailyGoal) * 100), 0, 100) : 0;
+  useEffect(() => {
+    if (!audioQuestion) return;
+    const run: AudioRun = { cancelled: false };
+    audioRunRef.current = run;
+    const q = {
+      prompt: spokenPrompt(audioQuestion, activeOptions),
+      answer: audioQuestion.modelAnswer,
+      style: audioStyle(audioQuestion, settings.answerMode),
+      pauseMs: settings.audioPauseSec * 1000,
+    };
+    playAudioQuestion(speech, q, (phase) => {
+      if (phase === "answer") setShowAnswer(true);
+      setAudioPhase(phase);
+    }, run);
+    return () => {
+      run.cancelled = true;
+      run.skip?.();
+      speech.cancel();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [audioQuestion?.id, audioRound]);
 
-  function toggleTag(t: string) {
-    setFilters((f) => {
-      const next = new Set(f.tags);
-      if (next.has(t)) next.delete(t);
-      else next.add(t);
-      return { tags: next };
-    });
+  async function pickAudioOption(index: number) {
+    const q = audioQuestion;
+    const option = activeOptions[index];
+    if (!q || grade || option === undefined) return;
+    const run = audioRunRef.current;
+    const g = gradeChoice(q, option);
+    if (mode === "exam") pickExamChoice(option);
+    else pickPracticeChoice(option);
+    setAudioPhase("answer");
+    await speech.speak(g.correct ? "Correct." : `Not quite. The answer: ${q.modelAnswer}`);
+    if (!run.cancelled) setAudioPhase("marking");
   }
 
-  function openEditor() {
-    setEditorText(JSON.stringify(bank, null, 2));
-    setEditorOpen(true);
+  function nextAudioQuestion() {
+    if (mode === "exam") advanceExam();
+    else newPracticeQuestion();
   }
 
-  function saveEditor() {
-    try {
-      const parsed = JSON.parse(editorText);
-      if (!Array.isArray(parsed)) throw new Error("Bank must be a JSON array.");
-      setBank(parsed);
-      setEditorOpen(false);
-    } catch (e: any) {
-      alert(e?.message || "Could not save bank.");
-    }
+  function runAudioAction(action: AudioAction | null) {
+    if (!action) return;
+    if (action.kind === "stop") setAudioDrill(false);
+    else if (action.kind === "repeat") setAudioRound((n) => n + 1);
+    else if (action.kind === "answer") audioRunRef.current.skip?.();
+    else if (action.kind === "pick") pickAudioOption(action.index);
+    else if (action.kind === "next") nextAudioQuestion();
+    else if (mode === "exam") answerExam(action.correct);
+    else scorePractice(action.correct);
   }
 
-  function exportBank() {
-    const blob = new Blob([JSON.stringify(bank, null, 2)], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "itf-theory-question-bank.json";
-    a.click();
-    URL.revokeObjectURL(url);
-  }
+  const audioInputRef = useRef<(input: { said: string } | { key: VoiceCommand }) => void>(() => {});
+  useEffect(() => {
+    audioInputRef.current = (input) => runAudioAction(audioAction(audioPhase, !!grade, input, activeOptions));
+  });
+  const audioActive = !!audioQuestion;
+  useEffect(() => {
+    if (!audioActive) return;
+    const stopListening = speech.listen((said) => audioInputRef.current({ said }));
+    const releaseKeys = speech.mediaKeys((key) => audioInputRef.current({ key }));
+    return () => {
+      stopListening();
+      releaseKeys();
+    };
+  }, [audioActive, speech]);
 
-  // Weak areas
-  const weakestTags = useMemo(() => {
-    const rows = Object.entries(stats.byTag).map(([tag, v]) => ({
-      tag,
-      attempts: v.attempts,
-      acc: v.attempts ? Math.round((v.correct / v.attempts) * 100) : 0,
-    }));
-    // prioritize: enough attempts + low accuracy
-    rows.sort((a, b) => (a.acc - b.acc) || (b.attempts - a.attempts));
-    return rows.filter(r => r.attempts >= 3).slice(0, 5);
-  }, [stats.byTag]);
+  function reviewSession(session: ExamSession) {
+    setActiveSessionId(session.id);
+    setExamOrder(sessionQuestions(session.qids));
+    setExamAnswers(session.answers);
+    setExamIndex(session.index);
+    setMode("examResult");
+  }
 
-  const weakestQuestions = useMemo(() => {
-    const byId = stats.byQuestion;
-    const rows = Object.entries(byId).map(([qid, v]) => ({
-      qid,
-      attempts: v.attempts,
-      acc: v.attempts ? Math.round((v.correct / v.attempts) * 100) : 0,
-    }));
-    rows.sort((a, b) => (a.acc - b.acc) || (b.attempts - a.attempts));
-    const idToPrompt = new Map(bank.map(q => [q.id, q.prompt]));
-    return rows
-      .filter(r => r.attempts >= 2)
-      .slice(0, 5)
-      .map(r => ({ ...r, prompt: idToPrompt.get(r.qid) || r.qid }));
-  }, [stats.byQuestion, bank]);
+  useEffect(() => {
+    if (mode !== "exam" || (!questionLimitMs && !examLimitMs)) return;
+    const t = window.setInterval(() => setClock(Date.now()), 250);
+    return () => clearInterval(t);
+  }, [mode, questionLimitMs, examLimitMs]);
 
-  // Exam mode
-  function startExam() {
-    const len = clamp(settings.testLength || 10, 5, 50);
-    const chosen = shuffle(pool).slice(0, Math.min(len, pool.length));
-    setExamOrder(chosen);
-    setExamIndex(0);
-    setExamAnswers([]);
-    setShowAnswer(false);
-    setMode("exam");
-  }
+  useEffect(() => {
+    if (mode !== "exam") return;
+    if (examTimeLeftMs !== null && examTimeLeftMs <= 0) expireExam();
+    else if (questionTimeLeftMs !== null && questionTimeLeftMs <= 0) timeOutQuestion();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clock]);
 
-  function currentExamQ() {
-    return examOrder[examIndex] || null;
+  function submitExamTyped() {
+    const q = currentExamQ();
+    if (!q) return;
+    submitExamGrade(q, gradeTypedAnswer(q, typedAnswer, settings), typedAnswer);
   }
 
-  function answerExam(correct: boolean) {
+  function pickExamChoice(option: string) {
     const q = currentExamQ();
     if (!q) return;
+    setChoicePick(option);
+    submitExamGrade(q, gradeChoice(q, option), option);
+  }
 
-    logAttempt(q, correct);
-    setExamAnswers((prev) => [...prev, { qid: q.id, correct }]);
-
-    const nextIndex = examIndex + 1;
-    if (nextIndex >= examOrder.length) {
-      setMode("examResult");
-      return;
-    }
-    setExamIndex(nextIndex);
-    setShowAnswer(false);
+  function submitExamTicks() {
+    const q = currentExamQ();
+    if (!q || !isListQuestion(q)) return;
+    submitExamGrade(q, gradeListTicks(q, listTicks), listTicks.join(", "));
   }
 
   const examScore = useMemo(() => {
@@ -433,6 +3550,20 @@ export default function App() {
     return examOrder.filter(q => missedIds.has(q.id));
   }, [examAnswers, examOrder]);
 
+  const slowestInExam = useMemo(() => {
+    const byId = new Map(examOrder.map(q => [q.id, q]));
+    return examAnswers
+      .filter(a => a.ms !== undefined)
+      .map(a => ({ ...a, prompt: byId.get(a.qid)?.prompt || a.qid }))
+      .sort((a, b) => (b.ms ?? 0) - (a.ms ?? 0))
+      .slice(0, 5);
+  }, [examAnswers, examOrder]);
+
+  const gradedInExam = useMemo(() => {
+    const byId = new Map(studyBank.map(q => [q.id, q]));
+    return examAnswers.filter(a => a.grade).map(a => ({ ...a, q: byId.get(a.qid) }));
+  }, [examAnswers, studyBank]);
+
   return (
     <div className="wrap">
       <header className="header">
@@ -440,12 +3571,34 @@ export default function App() {
           <div className="h1">ITF Taekwon-Do Theory Mock Test</div>
           <div className="sub">Practice honestly. Then use Exam Mode to pressure-test recall.</div>
           <div className="dojoMark">
-            <span className="badge">1st → 2nd Dan prep</span>
+            <span className="badge">
+              {targetGrade ? `${previousGrade ? previousGrade.label + " → " : ""}${targetGrade.label} prep` : "All grades"}
+            </span>
             <span className="badge">ITF • patterns • theory • terminology</span>
           </div>
         </div>
 
         <div className="topStats">
+          <div className="pill">
+            <div className="pillLabel">Student</div>
+            <select
+              className="pillSelect"
+              value={profile.active.id}
+              onChange={(e) => {
+                if (e.target.value !== "__new") {
+                  profile.switchTo(e.target.value);
+                  return;
+                }
+                const name = prompt("Name for the new profile?")?.trim();
+                if (name) profile.create(name);
+              }}
+            >
+              {profile.profiles.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+              <option value="__new">+ New profile…</option>
+            </select>
+          </div>
           <div className="pill">
             <div className="pillLabel">Accuracy</div>
             <div className="pillValue">{stats.accuracy}%</div>
@@ -460,6 +3613,14 @@ export default function App() {
               {todayCount}/{settings.dailyGoal} ({goalPct}%)
             </div>
           </div>
+          {gradingDaysLeft !== null && gradingDaysLeft >= 0 && (
+            <div className="pill">
+              <div className="pillLabel">Grading</div>
+              <div className="pillValue">
+                {gradingDaysLeft === 0 ? "Today" : `${gradingDaysLeft} day${gradingDaysLeft === 1 ? "" : "s"}`}
+              </div>
+            </div>
+          )}
         </div>
       </header>
 
@@ -467,9 +3628,19 @@ export default function App() {
         <section className="card">
           <div className="cardHeader">
             <div className="cardTitle">
-              {mode === "practice" && "Practice"}
+              {mode === "practice" && !drill && `Practice • ${reviewCounts.due} due today • ${reviewCounts.fresh} new`}
+              {mode === "practice" && drill && `Drill • ${drill.label} • ${drillProgress}/${drill.qids.length} done`}
               {mode === "exam" && `Exam Mode • Q${examIndex + 1}/${examOrder.length}`}
+              {mode === "exam" && questionTimeLeftMs !== null && !grade && (
+                <span className={"countdown" + (questionTimeLeftMs <= 10000 ? " urgent" : "")}>⏱ {formatClock(questionTimeLeftMs)}</span>
+              )}
+              {mode === "exam" && examTimeLeftMs !== null && (
+                <span className={"countdown" + (examTimeLeftMs <= 60000 ? " urgent" : "")}>Paper {formatClock(examTimeLeftMs)}</span>
+              )}
               {mode === "examResult" && "Exam Results"}
+              {mode === "examHistory" && "Exam history"}
+              {mode === "instructor" && `Instructor view • ${classStudents.length} students`}
+              {mode === "analytics" && "Progress"}
             </div>
 
             <div className="cardActions">
@@ -478,21 +3649,62 @@ export default function App() {
               </button>
 
               {mode !== "exam" && (
-                <button className="btn primary" onClick={startExam}>
-                  Start exam ({settings.testLength})
-                </button>
+                <div className="splitBtn">
+                  <button className="btn primary" onClick={startExam}>
+                    Start exam ({activeBlueprint ? activeBlueprint.name : settings.testLength})
+                  </button>
+                  <select
+                    className="btn"
+                    aria-label="Exam blueprint"
+                    value={settings.blueprintId}
+                    onChange={(e) => setSettings({ ...settings, blueprintId: e.target.value })}
+                  >
+                    <option value="">Random {settings.testLength}</option>
+                    {blueprints.map((b) => (
+                      <option key={b.id} value={b.id}>{b.name}</option>
+                    ))}
+                  </select>
+                </div>
               )}
 
               {mode === "practice" && (
                 <>
-                  <button className="btn" onClick={newPracticeQuestion}>New question</button>
+                  <button className="btn" onClick={() => newPracticeQuestion()}>New question</button>
+                  {drill && <button className="btn ghost" onClick={endDrill}>End drill</button>}
                   <button className="btn" onClick={() => setShowAnswer((v) => !v)}>
                     {showAnswer ? "Hide model answer" : "Reveal model answer"}
                   </button>
                 </>
               )}
 
-              {mode === "examResult" && (
+              {mode === "exam" && (
+                <button className="btn ghost" onClick={abandonExam}>Abandon exam</button>
+              )}
+
+              {(mode === "practice" || mode === "exam") && (
+                <button
+                  className={"btn" + (audioDrill ? " primary" : "")}
+                  onClick={() => setAudioDrill((v) => !v)}
+                  disabled={!speech.canSpeak}
+                  title={speech.canSpeak ? undefined : "This browser can’t read text aloud"}
+                >
+                  {audioDrill ? "Stop audio drill" : "🔊 Audio drill"}
+                </button>
+              )}
+
+              {mode !== "exam" && mode !== "examHistory" && (
+                <button className="btn" onClick={() => setMode("examHistory")}>Exam history</button>
+              )}
+
+              {mode !== "exam" && mode !== "analytics" && (
+                <button className="btn" onClick={() => setMode("analytics")}>Progress</button>
+              )}
+
+              {mode !== "exam" && mode !== "instructor" && (
+                <button className="btn" onClick={() => setMode("instructor")}>Instructor view</button>
+              )}
+
+              {(mode === "examResult" || mode === "examHistory" || mode === "instructor" || mode === "analytics") && (
                 <button className="btn" onClick={() => setMode("practice")}>
                   Back to practice
                 </button>
@@ -500,6 +3712,22 @@ export default function App() {
             </div>
           </div>
 
+          {audioQuestion && (
+            <div className="audioStatus" aria-live="polite">
+              <b>{AUDIO_PHASE_LABEL[audioPhase]}</b>
+              <span className="hint" style={{ margin: 0 }}>
+                {speech.canListen
+                  ? "After the model answer say “correct” or “missed”; “repeat”, “answer” and “stop” work any time. "
+                  : "Voice marking isn’t available in this browser. "}
+                Media keys, after the model answer: next = correct, previous = missed; play/pause = repeat.
+              </span>
+              <div className="row">
+                <button className="btn ghost" onClick={() => setAudioRound((n) => n + 1)}>Repeat</button>
+                {audioPhase === "thinking" && <button className="btn ghost" onClick={() => audioRunRef.current.skip?.()}>Answer now</button>}
+              </div>
+            </div>
+          )}
+
           {mode === "practice" && (
             <>
               {!current ? (
@@ -507,16 +3735,67 @@ export default function App() {
               ) : (
                 <>
                   <div className="qPrompt">{current.prompt}</div>
+                  <Attachments images={current.promptImages} field="promptImages" />
 
-                  <div className="controlsRow">
-                    <button className="btn success" onClick={() => scorePractice(true)}>✓ Correct</button>
-                    <button className="btn danger" onClick={() => scorePractice(false)}>✗ Incorrect</button>
-                  </div>
+                  {isChoiceQuestion(current) ? (
+                    <>
+                      <ChoiceOptions options={activeOptions} correct={correctOption(current)} picked={choicePick} onPick={pickPracticeChoice} />
+                      {grade && (
+                        <div className="controlsRow">
+                          <button className="btn primary" onClick={() => newPracticeQuestion()}>Next question</button>
+                        </div>
+                      )}
+                    </>
+                  ) : settings.answerMode === "typed" ? (
+                    <>
+                      <textarea
+                        className="answerInput"
+                        value={typedAnswer}
+                        onChange={(e) => setTypedAnswer(e.target.value)}
+                        placeholder="Type your answer…"
+                        disabled={!!grade}
+                      />
+                      <div className="controlsRow">
+                        {grade ? (
+                          <button className="btn primary" onClick={() => newPracticeQuestion()}>Next question</button>
+                        ) : (
+                          <button className="btn primary" onClick={submitPracticeTyped}>Check answer</button>
+                        )}
+                      </div>
+                      {grade && <GradeBox grade={grade} />}
+                    </>
+                  ) : isListQuestion(current) ? (
+                    grade ? (
+                      <>
+                        <div className="controlsRow">
+                          <button className="btn primary" onClick={() => newPracticeQuestion()}>Next question</button>
+                        </div>
+                        <GradeBox grade={grade} />
+                      </>
+                    ) : showAnswer ? (
+                      <>
+                        <ListChecklist list={current.list} ticked={listTicks} onToggle={toggleListTick} />
+                        <div className="controlsRow">
+                          <button className="btn primary" onClick={submitPracticeTicks}>Score {listTicks.length} item(s)</button>
+                        </div>
+                      </>
+                    ) : (
+                      <div className="controlsRow">
+                        <button className="btn" onClick={() => setShowAnswer(true)}>Said my list — tick it off</button>
+                      </div>
+                    )
+                  ) : (
+                    <div className="controlsRow">
+                      <button className="btn success" onClick={() => scorePractice(true)}>✓ Correct</button>
+                      <button className="btn danger" onClick={() => scorePractice(false)}>✗ Incorrect</button>
+                    </div>
+                  )}
 
                   {showAnswer && (
                     <div className="answerBox">
                       <div className="answerTitle">Model answer</div>
                       <div className="answerText">{current.modelAnswer}</div>
+                      <Attachments images={current.answerImages} field="answerImages" />
                       {current.sourceNote && <div className="answerMeta">Source: {current.sourceNote}</div>}
                     </div>
                   )}
@@ -533,27 +3812,94 @@ export default function App() {
 
           {mode === "exam" && (
             <>
+              {examWarnings.length > 0 && (
+                <div className="warnBox">
+                  {examWarnings.map((w) => (
+                    <div key={w}>{w}</div>
+                  ))}
+                </div>
+              )}
+
               {currentExamQ() ? (
                 <>
                   <div className="qPrompt">{currentExamQ()!.prompt}</div>
+                  <Attachments images={currentExamQ()!.promptImages} field="promptImages" />
 
-                  <div className="controlsRow">
-                    <button className="btn" onClick={() => setShowAnswer((v) => !v)}>
-                      {showAnswer ? "Hide model answer" : "Reveal model answer"}
-                    </button>
-                    <button className="btn success" onClick={() => answerExam(true)}>✓ I got it right</button>
-                    <button className="btn danger" onClick={() => answerExam(false)}>✗ I missed it</button>
-                  </div>
+                  {isChoiceQuestion(currentExamQ()!) ? (
+                    <>
+                      <ChoiceOptions options={activeOptions} correct={correctOption(currentExamQ()!)} picked={choicePick} onPick={pickExamChoice} />
+                      {grade && (
+                        <div className="controlsRow">
+                          <button className="btn primary" onClick={() => advanceExam()}>
+                            {examIndex + 1 >= examOrder.length ? "See results" : "Next question"}
+                          </button>
+                        </div>
+                      )}
+                    </>
+                  ) : settings.answerMode === "typed" ? (
+                    <>
+                      <textarea
+                        className="answerInput"
+                        value={typedAnswer}
+                        onChange={(e) => setTypedAnswer(e.target.value)}
+                        placeholder="Type your answer…"
+                        disabled={!!grade}
+                      />
+                      <div className="controlsRow">
+                        {grade ? (
+                          <button className="btn primary" onClick={() => advanceExam()}>
+                            {examIndex + 1 >= examOrder.length ? "See results" : "Next question"}
+                          </button>
+                        ) : (
+                          <button className="btn primary" onClick={submitExamTyped}>Submit answer</button>
+                        )}
+                      </div>
+                      {grade && <GradeBox grade={grade} />}
+                    </>
+                  ) : isListQuestion(currentExamQ()!) ? (
+                    grade ? (
+                      <>
+                        <div className="controlsRow">
+                          <button className="btn primary" onClick={() => advanceExam()}>
+                            {examIndex + 1 >= examOrder.length ? "See results" : "Next question"}
+                          </button>
+                        </div>
+                        <GradeBox grade={grade} />
+                      </>
+                    ) : showAnswer ? (
+                      <>
+                        <ListChecklist list={currentExamQ()!.list!} ticked={listTicks} onToggle={toggleListTick} />
+                        <div className="controlsRow">
+                          <button className="btn primary" onClick={submitExamTicks}>Score {listTicks.length} item(s)</button>
+                        </div>
+                      </>
+                    ) : (
+                      <div className="controlsRow">
+                        <button className="btn" onClick={() => setShowAnswer(true)}>Said my list — tick it off</button>
+                      </div>
+                    )
+                  ) : (
+                    <div className="controlsRow">
+                      <button className="btn" onClick={() => setShowAnswer((v) => !v)}>
+                        {showAnswer ? "Hide model answer" : "Reveal model answer"}
+                      </button>
+                      <button className="btn success" onClick={() => answerExam(true)}>✓ I got it right</button>
+                      <button className="btn danger" onClick={() => answerExam(false)}>✗ I missed it</button>
+                    </div>
+                  )}
 
                   {showAnswer && (
                     <div className="answerBox">
                       <div className="answerTitle">Model answer</div>
                       <div className="answerText">{currentExamQ()!.modelAnswer}</div>
+                      <Attachments images={currentExamQ()!.answerImages} field="answerImages" />
                       {currentExamQ()!.sourceNote && <div className="answerMeta">Source: {currentExamQ()!.sourceNote}</div>}
                     </div>
                   )}
 
-                  <div className="hint">Be strict: only mark “right” if you could say it cleanly without prompting.</div>
+                  {settings.answerMode === "self" && (
+                    <div className="hint">Be strict: only mark “right” if you could say it cleanly without prompting.</div>
+                  )}
                 </>
               ) : (
                 <div className="hint">Preparing exam…</div>
@@ -578,6 +3924,40 @@ export default function App() {
                 </div>
               </div>
 
+              {activeSession && (
+                <div className="controlsRow" style={{ marginTop: 12 }}>
+                  <button className="btn" onClick={() => retakeSession(activeSession, false)}>Retake this paper</button>
+                  {missedInExam.length > 0 && (
+                    <>
+                      <button className="btn" onClick={() => retakeSession(activeSession, true)}>Retake missed ({missedInExam.length})</button>
+                      <button className="btn" onClick={() => startDrill("missedExam", missedInExam.map((q) => q.id))}>Practise missed</button>
+                    </>
+                  )}
+                  <button className="btn" onClick={() => startDrill("weakTags")}>Drill weakest tags</button>
+                </div>
+              )}
+
+              {slowestInExam.length > 0 && (
+                <>
+                  <div className="hr"></div>
+                  <div className="label">Slowest answers</div>
+                  <table className="smallTable">
+                    <thead>
+                      <tr><th>Question</th><th>Time</th><th>Result</th></tr>
+                    </thead>
+                    <tbody>
+                      {slowestInExam.map(a => (
+                        <tr key={a.qid}>
+                          <td>{a.prompt}</td>
+                          <td>{formatClock(a.ms ?? 0)}</td>
+                          <td>{a.timedOut ? "Timed out" : a.correct ? "✓" : "✗"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
+
               <div className="hr"></div>
 
               {missedInExam.length ? (
@@ -586,9 +3966,11 @@ export default function App() {
                   {missedInExam.map((q) => (
                     <div key={q.id} style={{ marginBottom: 12 }}>
                       <div className="qPrompt" style={{ fontSize: 15 }}>{q.prompt}</div>
+                      <Attachments images={q.promptImages} field="promptImages" />
                       <div className="answerBox" style={{ marginTop: 6 }}>
                         <div className="answerTitle">Model answer</div>
                         <div className="answerText">{q.modelAnswer}</div>
+                        <Attachments images={q.answerImages} field="answerImages" />
                       </div>
                     </div>
                   ))}
@@ -596,6 +3978,301 @@ export default function App() {
               ) : (
                 <div className="label">Clean sheet. Nice.</div>
               )}
+
+              {gradedInExam.length > 0 && (
+                <>
+                  <div className="hr"></div>
+                  <div className="label">Required terms per answer</div>
+                  {gradedInExam.map((a) => (
+                    <div key={a.qid} style={{ marginBottom: 12 }}>
+                      <div className="qPrompt" style={{ fontSize: 15 }}>{a.q?.prompt || a.qid}</div>
+                      <GradeBox grade={a.grade!} />
+                    </div>
+                  ))}
+                </>
+              )}
+            </>
+          )}
+
+          {mode === "analytics" && analytics && (
+            <>
+              <div className="statRow">
+                <div className="pill">
+                  <div className="pillLabel">Current streak</div>
+                  <div className="pillValue">{analytics.streaks.current} {analytics.streaks.current === 1 ? "day" : "days"}</div>
+                </div>
+                <div className="pill">
+                  <div className="pillLabel">Longest streak</div>
+                  <div className="pillValue">{analytics.streaks.longest} {analytics.streaks.longest === 1 ? "day" : "days"}</div>
+                </div>
+                <div className="pill">
+                  <div className="pillLabel">Last 7 days</div>
+                  <div className="pillValue">{analytics.week.attempts ? `${analytics.week.acc}%` : "–"}</div>
+                </div>
+                <div className="pill">
+                  <div className="pillLabel">Last 30 days</div>
+                  <div className="pillValue">{analytics.month.attempts ? `${analytics.month.acc}%` : "–"}</div>
+                </div>
+              </div>
+              <div className="hint">A streak day is one with at least {settings.dailyGoal} attempts (your daily goal).</div>
+
+              <div className="hr"></div>
+              <div className="label">Attempts per day</div>
+              <StudyHeatmap counts={analytics.counts} dailyGoal={settings.dailyGoal} />
+
+              <div className="hr"></div>
+              <div className="label">Accuracy by tag</div>
+              {analytics.tags.length ? (
+                <table className="smallTable">
+                  <thead><tr><th>Tag</th><th>7 days</th><th>30 days</th><th>All time</th></tr></thead>
+                  <tbody>
+                    {analytics.tags.map((t) => (
+                      <tr key={t.tag}>
+                        <td>{t.tag}</td>
+                        <td>{t.week ? `${t.week.acc}% (${t.week.attempts})` : "–"}</td>
+                        <td>{t.month ? `${t.month.acc}% (${t.month.attempts})` : "–"}</td>
+                        <td>{t.lifetime}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="hint">Answer a few questions to see per-tag trends.</div>
+              )}
+
+              <div className="hr"></div>
+              <div className="label">Learning curve</div>
+              {curveQuestion ? (
+                <>
+                  <label className="field">
+                    <select value={curveQuestion.id} onChange={(e) => setCurveQid(e.target.value)}>
+                      {attemptedQuestions.map((q) => (
+                        <option key={q.id} value={q.id}>{q.prompt}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <LearningCurve points={learningCurve(history, curveQuestion.id)} />
+                  <div className="hint">Running accuracy after each attempt; dots show whether that attempt was right.</div>
+                </>
+              ) : (
+                <div className="hint">No attempts yet.</div>
+              )}
+            </>
+          )}
+
+          {mode === "instructor" && (
+            <>
+              <div className="row">
+                <button className="btn primary" onClick={() => classInputRef.current?.click()}>Load student files…</button>
+                <input
+                  ref={classInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  multiple
+                  hidden
+                  onChange={(e) => {
+                    const files = Array.from(e.target.files ?? []);
+                    if (files.length) loadClassFiles(files);
+                    e.target.value = "";
+                  }}
+                />
+                {classStudents.length > 0 && (
+                  <>
+                    <button className="btn" onClick={printClassReport}>Print report</button>
+                    <button className="btn" onClick={downloadClassReport}>Download report</button>
+                    <button className="btn ghost" onClick={() => setClassStudents([])}>Clear</button>
+                  </>
+                )}
+              </div>
+              <div className="hint">
+                Load each student’s backup file (Study tools → Backup &amp; restore → Download backup). Files stay on this device and are not saved.
+              </div>
+              {classErrors.length > 0 && (
+                <ul className="errorList">
+                  {classErrors.map((e, i) => <li key={i}>{e}</li>)}
+                </ul>
+              )}
+
+              {classStudents.length > 0 && (
+                <>
+                  <div className="hr"></div>
+                  <div className="label">
+                    Students • {classReport.attempts} attempts • {classReport.accuracy}% class accuracy
+                  </div>
+                  <table className="smallTable">
+                    <thead>
+                      <tr><th>Student</th><th>Attempts</th><th>Accuracy</th><th>Last {INACTIVE_DAYS} days</th><th>Last practised</th><th></th></tr>
+                    </thead>
+                    <tbody>
+                      {classReport.students.map((s) => (
+                        <tr key={s.id}>
+                          <td>{s.name}</td>
+                          <td>{s.attempts}</td>
+                          <td>{s.accuracy}%</td>
+                          <td>{s.thisWeek}</td>
+                          <td>{s.lastAt ? new Date(s.lastAt).toLocaleDateString() : "never"}</td>
+                          <td>
+                            <button className="btn ghost" onClick={() => setClassStudents(classStudents.filter((x) => x.id !== s.id))}>Remove</button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  <div className="label">Not practised this week</div>
+                  <div className="hint">{classReport.inactive.length ? classReport.inactive.join(", ") : "Everyone has practised."}</div>
+
+                  <div className="hr"></div>
+                  <div className="label">Class accuracy by tag</div>
+                  <table className="smallTable">
+                    <thead><tr><th>Tag</th><th>Attempts</th><th>Accuracy</th></tr></thead>
+                    <tbody>
+                      {classReport.byTag.map((t) => (
+                        <tr key={t.tag}><td>{t.tag}</td><td>{t.attempts}</td><td>{t.acc}%</td></tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  <div className="label">Most missed questions</div>
+                  {classReport.mostMissed.length ? (
+                    <table className="smallTable">
+                      <thead><tr><th>Question</th><th>Students</th><th>Misses</th><th>Acc</th></tr></thead>
+                      <tbody>
+                        {classReport.mostMissed.map((q) => (
+                          <tr key={q.qid}><td>{q.prompt}</td><td>{q.students}</td><td>{q.missed}/{q.attempts}</td><td>{q.acc}%</td></tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <div className="hint">No missed questions yet.</div>
+                  )}
+                </>
+              )}
+            </>
+          )}
+
+          {mode === "examHistory" && (
+            <>
+              <div className="label">Paper mock exams</div>
+              <div className="row">
+                <button className="btn primary" onClick={createPaperExam}>
+                  Print a paper ({activeBlueprint ? activeBlueprint.name : `${settings.testLength} questions`})
+                </button>
+              </div>
+              <div className="hint">
+                Picks questions the same way as “Start exam”: the tag filter and exam length, or the selected blueprint. Print the answer key
+                separately, then enter the marks here to log them in this student’s history.
+              </div>
+
+              {unmarkedPapers.length > 0 && (
+                <table className="smallTable">
+                  <thead>
+                    <tr><th>Printed</th><th>Questions</th><th></th></tr>
+                  </thead>
+                  <tbody>
+                    {unmarkedPapers.map((x) => (
+                      <tr key={x.id}>
+                        <td>{new Date(x.startedAt).toLocaleString()}</td>
+                        <td>{x.qids.length}</td>
+                        <td>
+                          <div className="row">
+                            <button className="btn" onClick={() => printPaper(x, "paper")}>Paper</button>
+                            <button className="btn" onClick={() => printPaper(x, "key")}>Answer key</button>
+                            <button className="btn primary" onClick={() => startMarking(x)}>Enter marks</button>
+                            <button className="btn ghost" onClick={() => discardPaper(x)}>Discard</button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {markingPaper && (
+                <div className="block">
+                  <div className="label">Marking sheet – printed {new Date(markingPaper.startedAt).toLocaleDateString()}</div>
+                  <table className="smallTable">
+                    <thead>
+                      <tr><th>#</th><th>Question</th><th>Mark</th></tr>
+                    </thead>
+                    <tbody>
+                      {paperQuestions(markingPaper.qids).map((q, i) => (
+                        <tr key={q.id}>
+                          <td>{i + 1}</td>
+                          <td>{q.prompt}</td>
+                          <td>
+                            <div className="row">
+                              <button
+                                className={"chip" + (paperMarks[q.id] === true ? " active" : "")}
+                                onClick={() => setPaperMarks((m) => ({ ...m, [q.id]: true }))}
+                              >
+                                ✓
+                              </button>
+                              <button
+                                className={"chip" + (paperMarks[q.id] === false ? " active" : "")}
+                                onClick={() => setPaperMarks((m) => ({ ...m, [q.id]: false }))}
+                              >
+                                ✗
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="row" style={{ marginTop: 8 }}>
+                    <button className="btn primary" onClick={() => saveMarks(markingPaper)}>
+                      Save marks ({Object.values(paperMarks).filter(Boolean).length}/{markingPaper.qids.length} right)
+                    </button>
+                    <button className="btn" onClick={() => setMarkingPaperId(null)}>Cancel</button>
+                  </div>
+                </div>
+              )}
+
+              <div className="hr"></div>
+
+              {finishedSessions.length ? (
+                <>
+                  <div className="label">Score trend</div>
+                  <ScoreTrend values={finishedSessions.slice(0, 20).reverse().map((x) => x.score!.pct)} />
+
+                  <div className="hr"></div>
+
+                  <table className="smallTable">
+                    <thead>
+                      <tr><th>Date</th><th>Tags</th><th>Score</th><th>Δ</th><th></th></tr>
+                    </thead>
+                    <tbody>
+                      {finishedSessions.map((x, i) => {
+                        const prev = finishedSessions[i + 1];
+                        const delta = prev ? x.score!.pct - prev.score!.pct : null;
+                        const missed = x.answers.filter((a) => !a.correct).length;
+                        return (
+                          <tr key={x.id}>
+                            <td>
+                              {new Date(x.startedAt).toLocaleDateString()}
+                              {x.origin && <div className="answerMeta">{x.origin.kind === "missed" ? "missed retake" : "retake"}</div>}
+                              {x.paper && <div className="answerMeta">paper</div>}
+                            </td>
+                            <td>{x.filterTags.length ? x.filterTags.join(", ") : "all"}</td>
+                            <td>{x.score!.correct}/{x.score!.total} ({x.score!.pct}%)</td>
+                            <td>{delta === null ? "–" : delta > 0 ? `▲${delta}` : delta < 0 ? `▼${-delta}` : "="}</td>
+                            <td>
+                              <div className="row">
+                                <button className="btn" onClick={() => reviewSession(x)}>Review</button>
+                                <button className="btn" onClick={() => retakeSession(x, false)}>Retake</button>
+                                {missed > 0 && <button className="btn" onClick={() => retakeSession(x, true)}>Missed ({missed})</button>}
+                              </div>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </>
+              ) : (
+                <div className="hint">No finished exams yet. Papers you complete show up here.</div>
+              )}
             </>
           )}
         </section>
@@ -605,6 +4282,64 @@ export default function App() {
             <div className="cardTitle">Study tools</div>
           </div>
 
+          <div className="block">
+            <div className="label">Target grade</div>
+            <label className="field">
+              <select value={settings.targetGrade} onChange={(e) => setSettings({ ...settings, targetGrade: e.target.value })}>
+                <option value="">All grades (no scoping)</option>
+                {CURRICULUM.filter((g) => g.rank > 1).map((g) => (
+                  <option key={g.id} value={g.id}>{g.label}</option>
+                ))}
+              </select>
+            </label>
+            {syllabus && targetGrade && (
+              <div className="syllabus">
+                <div><b>Patterns:</b> {syllabus.patterns.join(", ") || "–"}</div>
+                <div><b>Terminology:</b> {syllabus.terminology.join(", ") || "–"}</div>
+                <div><b>Theory:</b> {syllabus.theory.join(", ") || "–"}</div>
+                {syllabus.uncoveredTheory.length > 0 && (
+                  <div className="hint">No questions in the bank yet for: {syllabus.uncoveredTheory.join(", ")}.</div>
+                )}
+              </div>
+            )}
+            {targetGrade && (
+              <div className="hint">
+                {gradeBank.length} of {studyBank.length} questions are required up to {targetGrade.label}. Practice and exams only draw from these.
+              </div>
+            )}
+
+            <div className="row" style={{ marginTop: 10 }}>
+              <label className="field">
+                <span>Grading date</span>
+                <input type="date" value={settings.gradingDate} onChange={(e) => setSettings({ ...settings, gradingDate: e.target.value })} />
+              </label>
+              {settings.gradingDate && (
+                <button className="btn ghost" onClick={() => setSettings({ ...settings, gradingDate: "" })}>Clear</button>
+              )}
+            </div>
+            {gradingDaysLeft !== null && gradingDaysLeft > 0 && (
+              studyPlan.length ? (
+                <>
+                  <div className="hint">
+                    {studyPlan.reduce((n, d) => n + d.questions.length, 0)} unseen or not-yet-mastered questions over {studyPlan.length} day
+                    {studyPlan.length === 1 ? "" : "s"}: about {studyPlan[0].questions.length} a day, weakest first.
+                  </div>
+                  <div className="label" style={{ fontSize: 13, marginTop: 8 }}>Today’s plan</div>
+                  <ul className="plainList">
+                    {studyPlan[0].questions.map((q) => (
+                      <li key={q.id}>{q.prompt}</li>
+                    ))}
+                  </ul>
+                  <div className="row">
+                    <button className="btn" onClick={exportStudyPlanCalendar}>Export plan (.ics)</button>
+                  </div>
+                </>
+              ) : (
+                <div className="hint">Everything in scope is mastered. Keep reviewing until the grading.</div>
+              )
+            )}
+          </div>
+
           <div className="block">
             <div className="label">Tags (optional)</div>
             <div className="tagPicker">
@@ -617,13 +4352,130 @@ export default function App() {
                 );
               })}
             </div>
-            <div className="hint">No tags selected = all questions. Exam mode uses the same filter.</div>
+            <div className="label" style={{ fontSize: 13 }}>Mastery</div>
+            <div className="tagPicker">
+              {MASTERY_LEVELS.map((level) => (
+                <button
+                  key={level}
+                  className={"chip level-" + level + (filters.levels.has(level) ? " active" : "")}
+                  onClick={() => toggleLevel(level)}
+                >
+                  {level} ({levelCounts[level]})
+                </button>
+              ))}
+            </div>
+            <div className="hint">No tags or levels selected = all questions. Exam mode uses the same filter.</div>
+          </div>
+
+          <div className="block">
+            <div className="label">Terminology glossary</div>
+            <label className="badge" style={{ cursor: "pointer" }}>
+              <input
+                type="checkbox"
+                checked={settings.glossaryCards}
+                onChange={(e) => setSettings({ ...settings, glossaryCards: e.target.checked })}
+              />
+              <span style={{ marginLeft: 8 }}>Include flashcards ({BUILTIN_GLOSSARY.length} terms, Korean ↔ English)</span>
+            </label>
+            <details className="glossary">
+              <summary>Browse terms</summary>
+              <table className="smallTable">
+                <thead>
+                  <tr><th>Korean</th><th>Hangul</th><th>English</th><th>Category</th></tr>
+                </thead>
+                <tbody>
+                  {BUILTIN_GLOSSARY.map((t) => (
+                    <tr key={t.id}>
+                      <td>
+                        {t.korean}
+                        {t.spellings.length > 0 && <div className="answerMeta">also {t.spellings.join(", ")}</div>}
+                      </td>
+                      <td lang="ko">{t.hangul}</td>
+                      <td>{t.english}</td>
+                      <td>{t.category}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </details>
+            <div className="hint">
+              Flashcards are tagged “terminology” plus their category and follow the target grade. Typed answers accept any listed spelling.
+            </div>
+          </div>
+
+          <div className="block">
+            <div className="label">Patterns (tul)</div>
+            <label className="badge" style={{ cursor: "pointer" }}>
+              <input
+                type="checkbox"
+                checked={settings.patternCards}
+                onChange={(e) => setSettings({ ...settings, patternCards: e.target.checked })}
+              />
+              <span style={{ marginLeft: 8 }}>Include pattern questions ({BUILTIN_PATTERNS.length} patterns: moves, meaning, ready posture)</span>
+            </label>
+            <details className="glossary">
+              <summary>Browse patterns</summary>
+              <table className="smallTable">
+                <thead>
+                  <tr><th>Pattern</th><th>Moves</th><th>Grade</th><th>Meaning</th><th>Ready posture</th></tr>
+                </thead>
+                <tbody>
+                  {BUILTIN_PATTERNS.map((p) => (
+                    <tr key={p.name}>
+                      <td>
+                        {p.name}
+                        {p.techniques.length > 0 && <div className="answerMeta">{p.techniques.join(", ")}</div>}
+                      </td>
+                      <td>{p.moves}</td>
+                      <td>{gradeById(patternGrade(p) ?? "")?.label ?? "—"}</td>
+                      <td>{p.meaning}</td>
+                      <td>{p.readyPosture ?? "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </details>
+            {patternListProblems.length > 0 ? (
+              <div className="warnBox errorList">
+                <div>Pattern list questions naming patterns that aren't in the reference data:</div>
+                {patternListProblems.map((msg) => (
+                  <div key={msg}>{msg}</div>
+                ))}
+              </div>
+            ) : (
+              <div className="hint">Every pattern named in the bank's pattern list questions is in the reference data.</div>
+            )}
+            <div className="hint">Generated questions are tagged “patterns” and “pattern-facts” and follow the target grade.</div>
           </div>
 
           <div className="block">
             <div className="label">Weak areas</div>
 
-            <div className="hint">Based on your history. Needs a few attempts per area to be meaningful.</div>
+            <div className="hint">
+              Ranked by mastery: recent answers count most, a run of correct answers is needed to reach “mastered”, and mastery fades if you stop practising.
+            </div>
+
+            <div className="row" style={{ marginTop: 8 }}>
+              <button className="btn" onClick={() => startDrill("weakTags")} disabled={!weakestTags.length}>Drill weakest tags</button>
+              <button className="btn" onClick={() => startDrill("missedExam", lastExamMissed)} disabled={!lastExamMissed.length}>
+                Missed in last exam ({lastExamMissed.length})
+              </button>
+              <button className="btn" onClick={() => startDrill("unseen")} disabled={!levelCounts.new}>Never attempted ({levelCounts.new})</button>
+              <span className="splitBtn">
+                <button className="btn" onClick={() => startDrill("stale")}>Not seen in</button>
+                <input
+                  className="btn"
+                  type="number"
+                  min={1}
+                  max={365}
+                  aria-label="Days since last seen"
+                  style={{ width: 64 }}
+                  value={settings.staleDays}
+                  onChange={(e) => setSettings({ ...settings, staleDays: clamp(parseInt(e.target.value || "14", 10), 1, 365) })}
+                />
+                <span className="hint">days</span>
+              </span>
+            </div>
 
             <div className="hr"></div>
 
@@ -631,20 +4483,20 @@ export default function App() {
             {weakestTags.length ? (
               <table className="smallTable">
                 <thead>
-                  <tr><th>Tag</th><th>Acc</th><th>Attempts</th></tr>
+                  <tr><th>Tag</th><th>Mastery</th><th>Attempts</th></tr>
                 </thead>
                 <tbody>
                   {weakestTags.map(r => (
                     <tr key={r.tag}>
                       <td>{r.tag}</td>
-                      <td>{r.acc}%</td>
+                      <td><span className={"level level-" + r.level}>{r.level}</span> {Math.round(r.score * 100)}%</td>
                       <td>{r.attempts}</td>
                     </tr>
                   ))}
                 </tbody>
               </table>
             ) : (
-              <div className="hint">Do a few rounds first; this list appears after ~3 attempts per tag.</div>
+              <div className="hint">{Object.keys(mastery.byTag).length ? "Every tag you have practised is mastered." : "Do a few rounds first."}</div>
             )}
 
             <div className="hr"></div>
@@ -653,20 +4505,43 @@ export default function App() {
             {weakestQuestions.length ? (
               <table className="smallTable">
                 <thead>
-                  <tr><th>Question</th><th>Acc</th><th>Attempts</th></tr>
+                  <tr><th>Question</th><th>Mastery</th><th>Attempts</th></tr>
                 </thead>
                 <tbody>
                   {weakestQuestions.map(r => (
                     <tr key={r.qid}>
                       <td>{r.prompt}</td>
-                      <td>{r.acc}%</td>
+                      <td><span className={"level level-" + r.level}>{r.level}</span> {Math.round(r.score * 100)}%</td>
                       <td>{r.attempts}</td>
                     </tr>
                   ))}
                 </tbody>
               </table>
             ) : (
-              <div className="hint">This list appears after ~2 attempts per question.</div>
+              <div className="hint">{Object.keys(mastery.byQuestion).length ? "Every question you have practised is mastered." : "This list appears once you have answered a question."}</div>
+            )}
+
+            {weakestItems.length > 0 && (
+              <>
+                <div className="hr"></div>
+
+                <div className="label" style={{ fontSize: 13 }}>Most-missed list items</div>
+                <table className="smallTable">
+                  <thead>
+                    <tr><th>Item</th><th>Question</th><th>Acc</th><th>Attempts</th></tr>
+                  </thead>
+                  <tbody>
+                    {weakestItems.map(r => (
+                      <tr key={r.key}>
+                        <td>{r.item}</td>
+                        <td>{r.prompt}</td>
+                        <td>{r.acc}%</td>
+                        <td>{r.attempts}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
             )}
           </div>
 
@@ -699,20 +4574,19 @@ export default function App() {
                   if (!("Notification" in window)) return;
                   const perm = await Notification.requestPermission();
                   if (perm === "granted") {
-                    try { new Notification("ITF Theory Mock Test", { body: settings.reminderMessage }); } catch {}
+                    showTestNotification(notificationTitle, settings.reminderMessage)
+                      .then(() => setReminderError(null))
+                      .catch((e) => setReminderError(`Could not show a notification: ${(e as Error).message}`));
                   }
                 }}
               >
                 Test notification
               </button>
+
+              <button className="btn" onClick={exportReminderCalendar}>Add to calendar (.ics)</button>
             </div>
 
             <div className="row">
-              <label className="field">
-                <span>Time</span>
-                <input type="time" value={settings.reminderTime} onChange={(e) => setSettings({ ...settings, reminderTime: e.target.value })} />
-              </label>
-
               <label className="field">
                 <span>Daily goal</span>
                 <input
@@ -734,6 +4608,39 @@ export default function App() {
                   onChange={(e) => setSettings({ ...settings, testLength: clamp(parseInt(e.target.value || "10", 10), 5, 50) })}
                 />
               </label>
+
+              <label className="field">
+                <span>Sec / question (0 = off)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={600}
+                  value={settings.questionTimeLimitSec}
+                  onChange={(e) => setSettings({ ...settings, questionTimeLimitSec: clamp(parseInt(e.target.value || "0", 10), 0, 600) })}
+                />
+              </label>
+
+              <label className="field">
+                <span>Exam minutes (0 = off)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={180}
+                  value={settings.examTimeLimitMin}
+                  onChange={(e) => setSettings({ ...settings, examTimeLimitMin: clamp(parseInt(e.target.value || "0", 10), 0, 180) })}
+                />
+              </label>
+
+              <label className="field">
+                <span>Audio drill pause (sec)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={60}
+                  value={settings.audioPauseSec}
+                  onChange={(e) => setSettings({ ...settings, audioPauseSec: clamp(parseInt(e.target.value || "0", 10), 0, 60) })}
+                />
+              </label>
             </div>
 
             <div className="label" style={{ fontSize: 12, color: "var(--muted)", marginTop: 10 }}>Days</div>
@@ -757,12 +4664,194 @@ export default function App() {
               })}
             </div>
 
+            <div className="label" style={{ fontSize: 12, color: "var(--muted)", marginTop: 10 }}>Times</div>
+            <div className="row wrapRow">
+              {settings.reminderTimes.map((t, i) => (
+                <span key={i} className="splitBtn">
+                  <input
+                    className="btn"
+                    type="time"
+                    aria-label={`Reminder time ${i + 1}`}
+                    value={t}
+                    onChange={(e) =>
+                      setSettings({ ...settings, reminderTimes: settings.reminderTimes.map((x, j) => (j === i ? e.target.value : x)) })
+                    }
+                  />
+                  {settings.reminderTimes.length > 1 && (
+                    <button
+                      className="btn ghost"
+                      aria-label="Remove time"
+                      onClick={() => setSettings({ ...settings, reminderTimes: settings.reminderTimes.filter((_, j) => j !== i) })}
+                    >
+                      ×
+                    </button>
+                  )}
+                </span>
+              ))}
+              <button className="btn" onClick={() => setSettings({ ...settings, reminderTimes: [...settings.reminderTimes, "12:00"] })}>
+                + Add time
+              </button>
+            </div>
+
+            <div className="row" style={{ marginTop: 10 }}>
+              <label className="badge" style={{ cursor: "pointer" }}>
+                <input
+                  type="checkbox"
+                  checked={settings.skipWhenGoalMet}
+                  onChange={(e) => setSettings({ ...settings, skipWhenGoalMet: e.target.checked })}
+                />
+                <span style={{ marginLeft: 8 }}>Skip once today’s goal is met</span>
+              </label>
+              <label className="badge" style={{ cursor: "pointer" }}>
+                <input
+                  type="checkbox"
+                  checked={settings.streakNudge}
+                  onChange={(e) => setSettings({ ...settings, streakNudge: e.target.checked })}
+                />
+                <span style={{ marginLeft: 8 }}>“Streak at risk” nudge at</span>
+              </label>
+              <input
+                className="btn"
+                type="time"
+                aria-label="Streak nudge time"
+                disabled={!settings.streakNudge}
+                value={settings.streakNudgeTime}
+                onChange={(e) => setSettings({ ...settings, streakNudgeTime: e.target.value })}
+              />
+            </div>
+
             <label className="field full">
               <span>Message</span>
               <input type="text" value={settings.reminderMessage} onChange={(e) => setSettings({ ...settings, reminderMessage: e.target.value })} />
             </label>
 
-            <div className="hint">Android notifications can be throttled by battery optimisation; your ChatGPT reminder remains the reliable backstop.</div>
+            <div className="hint">
+              {reminderDelivery === "triggers" && "Reminders are scheduled with your device and arrive even when the app is closed."}
+              {reminderDelivery === "periodic" &&
+                "The installed app checks for due reminders in the background; the browser decides how often, so they can arrive a little late."}
+              {reminderDelivery === "page" &&
+                (serviceWorkerError()
+                  ? `Reminders only arrive while this app is open: background reminders could not be set up (${serviceWorkerError()}).`
+                  : "Reminders only arrive while this app is open. Install it (browser menu → Install app / Add to Home screen) for background reminders.")}
+              {" "}Reminders mention how many review cards are due and offer “Start {QUICK_QUIZ_SIZE}-question quiz” to jump straight in.
+              For reminders that don’t depend on the browser at all, add the schedule to your calendar.
+            </div>
+            {reminderError && <div className="warnBox" style={{ marginTop: 8 }}>{reminderError}</div>}
+          </div>
+
+          <div className="block">
+            <div className="label">Answer mode</div>
+            <div className="row">
+              <button
+                className={"chip" + (settings.answerMode === "self" ? " active" : "")}
+                onClick={() => setSettings({ ...settings, answerMode: "self" })}
+              >
+                Self-mark ✓/✗
+              </button>
+              <button
+                className={"chip" + (settings.answerMode === "typed" ? " active" : "")}
+                onClick={() => setSettings({ ...settings, answerMode: "typed" })}
+              >
+                Type &amp; auto-grade
+              </button>
+              <label className="field">
+                <span>Pass mark (%)</span>
+                <input
+                  type="number"
+                  min={10}
+                  max={100}
+                  value={settings.typedPassPct}
+                  onChange={(e) => setSettings({ ...settings, typedPassPct: clamp(parseInt(e.target.value || "60", 10), 10, 100) })}
+                />
+              </label>
+            </div>
+
+            <label className="field full">
+              <span>Synonyms (one per line, “term: alt, alt”)</span>
+              <textarea
+                className="editor small"
+                value={synonymText}
+                onChange={(e) => setSynonymText(e.target.value)}
+                onBlur={() => setSettings({ ...settings, synonyms: parseSynonyms(synonymText) })}
+                spellCheck={false}
+              />
+            </label>
+            <div className="hint">Typed answers ignore case and punctuation. List answers earn partial credit per item.</div>
+          </div>
+
+          <div className="block">
+            <div className="label">Exam blueprints</div>
+            {blueprints.length ? (
+              <table className="smallTable">
+                <thead>
+                  <tr><th>Name</th><th>Length</th><th>Quotas</th><th></th></tr>
+                </thead>
+                <tbody>
+                  {blueprints.map((b) => (
+                    <tr key={b.id}>
+                      <td>{b.name}</td>
+                      <td>{b.length}</td>
+                      <td>{b.quotas.map((q) => `${q.tag} ${q.min}–${q.max}`).join(", ") || "–"}</td>
+                      <td><button className="btn" onClick={() => setBlueprintDraft(b)}>Edit</button></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="hint">No blueprints yet. Exams use a flat shuffle.</div>
+            )}
+            <div className="row" style={{ marginTop: 8 }}>
+              <button className="btn" onClick={newBlueprint}>New blueprint</button>
+            </div>
+            <div className="hint">Pick a blueprint next to “Start exam”. Quotas are filled from the current grade and tag filter.</div>
+          </div>
+
+          <div className="block">
+            <div className="label">Profile</div>
+            <div className="row">
+              <button
+                className="btn"
+                onClick={() => {
+                  const name = prompt("Rename profile", profile.active.name)?.trim();
+                  if (name) profile.rename(profile.active.id, name);
+                }}
+              >
+                Rename “{profile.active.name}”
+              </button>
+              {profile.profiles.length > 1 && (
+                <button
+                  className="btn danger"
+                  onClick={() => {
+                    if (confirm(`Delete ${profile.active.name}'s history, settings and exams? The shared question bank stays.`)) {
+                      profile.remove(profile.active.id);
+                    }
+                  }}
+                >
+                  Delete profile
+                </button>
+              )}
+            </div>
+            <div className="hint">Each student has their own history, goal, target grade, reminders and exams. The question bank is shared.</div>
+          </div>
+
+          <div className="block">
+            <div className="label">Backup &amp; restore</div>
+            <div className="row">
+              <button className="btn" onClick={exportBackup}>Download backup</button>
+              <button className="btn" onClick={() => restoreInputRef.current?.click()}>Restore…</button>
+              <input
+                ref={restoreInputRef}
+                type="file"
+                accept=".json,application/json"
+                hidden
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) readBackupFile(file);
+                  e.target.value = "";
+                }}
+              />
+            </div>
+            <div className="hint">One file with your bank, history, settings, exam sessions and review schedule. Keep it somewhere other than this browser.</div>
           </div>
 
           <div className="block">
@@ -770,6 +4859,128 @@ export default function App() {
             <div className="row">
               <button className="btn" onClick={openEditor}>Edit / paste JSON</button>
               <button className="btn" onClick={exportBank}>Export JSON</button>
+              <button className="btn" onClick={exportBankCsv}>Export CSV</button>
+              <button className="btn" onClick={exportBankAnki}>Export Anki</button>
+              <button className="btn" onClick={() => importInputRef.current?.click()}>Import &amp; merge</button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,.csv,.txt,.tsv,application/json,text/csv,text/plain"
+                hidden
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importBankFile(file);
+                  e.target.value = "";
+                }}
+              />
+            </div>
+            <div className="hint">
+              Import takes the app’s JSON, a CSV with prompt/answer/tags/source note columns, or an Anki plain-text (tab-separated) export.
+              CSV and Anki only carry the text fields; list and choice settings on matching ids are kept.
+            </div>
+          </div>
+
+          <div className="block">
+            <div className="label">Pictures</div>
+            <div className="row">
+              <label className="field">
+                <span>Question</span>
+                <select value={pictureQid} onChange={(e) => setPictureQid(e.target.value)}>
+                  <option value="">Choose a question…</option>
+                  {bank.map((q) => (
+                    <option key={q.id} value={q.id}>
+                      {(q.promptImages?.length || q.answerImages?.length ? "🖼 " : "") + q.prompt}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            {pictureQuestion && (
+              <>
+                {(["promptImages", "answerImages"] as AttachmentField[]).map((field) => (
+                  <div key={field} style={{ marginTop: 8 }}>
+                    <div className="row">
+                      <span className="hint" style={{ margin: 0 }}>{field === "promptImages" ? "With the prompt" : "With the model answer"}</span>
+                      <button
+                        className="btn"
+                        onClick={() => {
+                          attachFieldRef.current = field;
+                          attachInputRef.current?.click();
+                        }}
+                      >
+                        Add picture
+                      </button>
+                    </div>
+                    <div className="attachments">
+                      {(pictureQuestion[field] ?? []).map((img, i) => (
+                        <figure key={i}>
+                          <img src={img.dataUrl} alt={attachmentAlt(img, field)} />
+                          <input
+                            type="text"
+                            value={img.alt ?? ""}
+                            placeholder={field === "promptImages" ? "Description (don't give the answer away)" : "Description"}
+                            onChange={(e) => setImageAlt(field, i, e.target.value)}
+                          />
+                          <button className="btn ghost" onClick={() => removeImage(field, i)}>Remove</button>
+                        </figure>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+                <input
+                  ref={attachInputRef}
+                  type="file"
+                  accept="image/*"
+                  hidden
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) attachImage(file);
+                    e.target.value = "";
+                  }}
+                />
+              </>
+            )}
+
+            <div className="hr"></div>
+            <div className="label">New picture question</div>
+            <div className="row">
+              <label className="field">
+                <span>Prompt</span>
+                <input value={pictureDraft.prompt} onChange={(e) => setPictureDraft({ ...pictureDraft, prompt: e.target.value })} />
+              </label>
+              <label className="field">
+                <span>Answer</span>
+                <input value={pictureDraft.answer} onChange={(e) => setPictureDraft({ ...pictureDraft, answer: e.target.value })} placeholder="e.g. Walking stance (gunnun sogi)" />
+              </label>
+              <label className="field">
+                <span>Tags</span>
+                <input value={pictureDraft.tags} onChange={(e) => setPictureDraft({ ...pictureDraft, tags: e.target.value })} />
+              </label>
+              <label className="field">
+                <span>Picture</span>
+                <input
+                  type="file"
+                  accept="image/*"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) pickPictureQuestionImage(file);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </div>
+            {pictureDraft.image && (
+              <div className="attachments">
+                <img src={pictureDraft.image.dataUrl} alt={pictureDraft.image.name} />
+              </div>
+            )}
+            <div className="row" style={{ marginTop: 8 }}>
+              <button className="btn primary" onClick={addPictureQuestion} disabled={!pictureDraft.image || !pictureDraft.answer.trim()}>
+                Add question
+              </button>
+            </div>
+            <div className="hint">
+              Pictures are stored with the bank on this device and included in JSON exports and backups (not CSV or Anki). Large photos are scaled down.
             </div>
           </div>
         </section>
@@ -783,11 +4994,235 @@ export default function App() {
               <button className="btn" onClick={() => setEditorOpen(false)}>Close</button>
             </div>
             <textarea className="editor" value={editorText} onChange={(e) => setEditorText(e.target.value)} spellCheck={false} />
+            {editorErrors.length > 0 && (
+              <div className="warnBox errorList">
+                {editorErrors.map((err, i) => (
+                  <div key={i}>{err}</div>
+                ))}
+              </div>
+            )}
             <div className="modalFooter">
               <button className="btn" onClick={() => setEditorOpen(false)}>Cancel</button>
               <button className="btn primary" onClick={saveEditor}>Save bank</button>
             </div>
-            <div className="hint">Each entry needs: id, prompt, modelAnswer. Optional: tags, sourceNote.</div>
+            <div className="hint">Each entry needs: id, prompt, modelAnswer. Optional: tags, sourceNote, keywords, grades (e.g. ["6kup"]), kind: "list" with list: {"{"} items, minRequired, ordered {"}"}, kind: "choice" with choice: {"{"} correct, distractors, autoDistractors {"}"}, or kind: "truefalse" with truth.</div>
+          </div>
+        </div>
+      )}
+
+      {importDraft && (
+        <div className="modalBackdrop" role="dialog" aria-modal="true">
+          <div className="modal">
+            <div className="modalHeader">
+              <div className="modalTitle">Import {importDraft.fileName}</div>
+              <button className="btn" onClick={() => setImportDraft(null)}>Close</button>
+            </div>
+
+            <div className="kpiRow">
+              <div className="kpi"><div className="k">New</div><div className="v">{importDraft.added.length}</div></div>
+              <div className="kpi"><div className="k">Changed / conflicting</div><div className="v">{importDraft.conflicts.length}</div></div>
+              <div className="kpi"><div className="k">Identical</div><div className="v">{importDraft.unchanged}</div></div>
+              <div className="kpi"><div className="k">Skipped (invalid)</div><div className="v">{importDraft.errors.length}</div></div>
+            </div>
+
+            <div className="importBody">
+              {importDraft.errors.length > 0 && (
+                <div className="warnBox errorList">
+                  {importDraft.errors.map((err, i) => (
+                    <div key={i}>{err}</div>
+                  ))}
+                </div>
+              )}
+
+              {importDraft.added.length > 0 && (
+                <>
+                  <div className="label" style={{ fontSize: 13 }}>Added</div>
+                  <ul className="plainList">
+                    {importDraft.added.map((q) => (
+                      <li key={q.id}><b>{q.id}</b> — {q.prompt}</li>
+                    ))}
+                  </ul>
+                </>
+              )}
+
+              {importDraft.conflicts.map((c, i) => (
+                <div key={c.theirs.id} className="conflict">
+                  <div className="label" style={{ fontSize: 13 }}>
+                    {c.kind === "changed" ? "Changed" : "Conflict"}: {c.theirs.id}
+                    <span className="answerMeta" style={{ marginLeft: 8 }}>differs in {c.fields.join(", ")}</span>
+                  </div>
+                  <div className="diffCols">
+                    <div>
+                      <div className="answerMeta">Mine</div>
+                      <div className="qPrompt" style={{ fontSize: 14, marginBottom: 4 }}>{c.mine.prompt}</div>
+                      <div className="answerText">{c.mine.modelAnswer}</div>
+                      <Attachments images={[...(c.mine.promptImages ?? []), ...(c.mine.answerImages ?? [])]} />
+                    </div>
+                    <div>
+                      <div className="answerMeta">Theirs</div>
+                      <div className="qPrompt" style={{ fontSize: 14, marginBottom: 4 }}>{c.theirs.prompt}</div>
+                      <div className="answerText">{c.theirs.modelAnswer}</div>
+                      <Attachments images={[...(c.theirs.promptImages ?? []), ...(c.theirs.answerImages ?? [])]} />
+                    </div>
+                  </div>
+                  <div className="row" style={{ marginTop: 8 }}>
+                    {(["mine", "theirs", "both"] as const).map((choice) => (
+                      <button key={choice} className={"chip" + (c.choice === choice ? " active" : "")} onClick={() => setConflictChoice(i, choice)}>
+                        {choice === "mine" ? "Keep mine" : choice === "theirs" ? "Take theirs" : "Keep both"}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="modalFooter">
+              <button className="btn" onClick={() => setImportDraft(null)}>Cancel</button>
+              <button className="btn primary" onClick={confirmImport}>Merge into bank</button>
+            </div>
+            <div className="hint">“Keep both” adds their version under a new id so your history stays attached to yours.</div>
+          </div>
+        </div>
+      )}
+
+      {restoreDraft && (
+        <div className="modalBackdrop" role="dialog" aria-modal="true">
+          <div className="modal">
+            <div className="modalHeader">
+              <div className="modalTitle">Restore {restoreDraft.fileName}</div>
+              <button className="btn" onClick={() => setRestoreDraft(null)}>Close</button>
+            </div>
+
+            <div className="hint" style={{ marginTop: 0, marginBottom: 10 }}>
+              Backup from {restoreDraft.backup.exportedAt ? new Date(restoreDraft.backup.exportedAt).toLocaleString() : "an unknown date"}.
+            </div>
+
+            <div className="kpiRow">
+              <div className="kpi"><div className="k">Questions</div><div className="v">{restoreDraft.backup.bank.length}</div></div>
+              <div className="kpi"><div className="k">History entries</div><div className="v">{restoreDraft.backup.history.length}</div></div>
+              <div className="kpi"><div className="k">Exam sessions</div><div className="v">{restoreDraft.backup.sessions.length}</div></div>
+            </div>
+
+            {restoreDraft.errors.length > 0 && (
+              <div className="warnBox errorList">
+                {restoreDraft.errors.map((err, i) => (
+                  <div key={i}>{err}</div>
+                ))}
+              </div>
+            )}
+
+            <div className="row" style={{ marginTop: 12 }}>
+              <button
+                className={"chip" + (restoreDraft.mode === "merge" ? " active" : "")}
+                onClick={() => setRestoreDraft({ ...restoreDraft, mode: "merge" })}
+              >
+                Merge history
+              </button>
+              <button
+                className={"chip" + (restoreDraft.mode === "replace" ? " active" : "")}
+                onClick={() => setRestoreDraft({ ...restoreDraft, mode: "replace" })}
+              >
+                Replace everything
+              </button>
+            </div>
+            <div className="hint">
+              {restoreDraft.mode === "merge"
+                ? "Adds history and exam sessions not already here (matched by id). Your bank and settings stay; missing questions are added."
+                : "Overwrites this device’s bank, history, settings and sessions with the backup."}
+            </div>
+
+            <div className="modalFooter">
+              <button className="btn" onClick={() => setRestoreDraft(null)}>Cancel</button>
+              <button className="btn primary" onClick={confirmRestore}>
+                {restoreDraft.mode === "merge" ? "Merge backup" : "Replace with backup"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {blueprintDraft && (
+        <div className="modalBackdrop" role="dialog" aria-modal="true">
+          <div className="modal">
+            <div className="modalHeader">
+              <div className="modalTitle">Exam blueprint</div>
+              <button className="btn" onClick={() => setBlueprintDraft(null)}>Close</button>
+            </div>
+
+            <div className="row">
+              <label className="field">
+                <span>Name</span>
+                <input type="text" value={blueprintDraft.name} onChange={(e) => setBlueprintDraft({ ...blueprintDraft, name: e.target.value })} />
+              </label>
+              <label className="field">
+                <span>Questions</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={blueprintDraft.length}
+                  onChange={(e) => setBlueprintDraft({ ...blueprintDraft, length: clamp(parseInt(e.target.value || "10", 10), 1, 50) })}
+                />
+              </label>
+              <label className="field">
+                <span>Weak-tag weighting ({Math.round(blueprintDraft.weakWeighting * 100)}%)</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.1}
+                  value={blueprintDraft.weakWeighting}
+                  onChange={(e) => setBlueprintDraft({ ...blueprintDraft, weakWeighting: parseFloat(e.target.value) })}
+                />
+              </label>
+            </div>
+
+            <div className="hr"></div>
+
+            <table className="smallTable">
+              <thead>
+                <tr><th>Tag</th><th>Min</th><th>Max</th><th></th></tr>
+              </thead>
+              <tbody>
+                {blueprintDraft.quotas.map((q, i) => (
+                  <tr key={i}>
+                    <td>
+                      <select value={q.tag} onChange={(e) => updateQuota(i, { tag: e.target.value })}>
+                        <option value="">–</option>
+                        {allTags.map((t) => (
+                          <option key={t} value={t}>{t}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td>
+                      <input type="number" min={0} max={50} value={q.min} onChange={(e) => updateQuota(i, { min: clamp(parseInt(e.target.value || "0", 10), 0, 50) })} />
+                    </td>
+                    <td>
+                      <input type="number" min={0} max={50} value={q.max} onChange={(e) => updateQuota(i, { max: clamp(parseInt(e.target.value || "0", 10), 0, 50) })} />
+                    </td>
+                    <td>
+                      <button className="btn ghost" onClick={() => setBlueprintDraft({ ...blueprintDraft, quotas: blueprintDraft.quotas.filter((_, j) => j !== i) })}>
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="modalFooter">
+              {blueprints.some((b) => b.id === blueprintDraft.id) && (
+                <button className="btn danger" onClick={() => deleteBlueprint(blueprintDraft.id)}>Delete</button>
+              )}
+              <button
+                className="btn"
+                onClick={() => setBlueprintDraft({ ...blueprintDraft, quotas: [...blueprintDraft.quotas, { tag: "", min: 1, max: 2 }] })}
+              >
+                Add quota
+              </button>
+              <button className="btn primary" onClick={saveBlueprint}>Save blueprint</button>
+            </div>
+            <div className="hint">Minimums are filled first; the rest of the paper is topped up without exceeding any maximum.</div>
           </div>
         </div>
       )}
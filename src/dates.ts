@@ -0,0 +1,12 @@
+// Local calendar-day helpers. Days are keyed "YYYY-MM-DD" in the device's time zone.
+
+export function dayKey(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+// Same wall-clock time n calendar days later, also across DST changes.
+export function addDays(d: Date, n: number): Date {
+  const next = new Date(d);
+  next.setDate(next.getDate() + n);
+  return next;
+}
@@ -0,0 +1,114 @@
+// Page side of the PWA: service worker registration, handing the reminder schedule to the worker
+// (public/sw.js) and "start a quiz" requests coming back from notification actions.
+
+export const QUICK_QUIZ_SIZE = 5;
+
+const PERIODIC_TAG = "itf-reminders";
+const PERIODIC_MIN_INTERVAL_MS = 60 * 60 * 1000;
+
+// Upcoming reminders for the active profile; `at` is epoch ms.
+export type ReminderEntry = { at: number; kind: "reminder" | "streak"; body: string };
+export type ReminderPlan = { enabled: boolean; title: string; entries: ReminderEntry[] };
+
+// How reminders get delivered: scheduled with the OS, woken by periodic background sync, or only while a page is open.
+export type ReminderDelivery = "triggers" | "periodic" | "page";
+
+// Not in the TypeScript DOM lib yet.
+type PeriodicSyncManager = {
+  register(tag: string, options?: { minInterval: number }): Promise<void>;
+  unregister(tag: string): Promise<void>;
+};
+
+let registrationError: string | null = null;
+
+export async function registerServiceWorker(): Promise<void> {
+  if (!("serviceWorker" in navigator) || !import.meta.env.PROD) return;
+  try {
+    await navigator.serviceWorker.register("/sw.js");
+  } catch (e) {
+    registrationError = (e as Error).message;
+  }
+}
+
+// Why background reminders are unavailable, when the worker failed to register.
+export function serviceWorkerError(): string | null {
+  return registrationError;
+}
+
+async function activeWorker(): Promise<{ reg: ServiceWorkerRegistration; worker: ServiceWorker } | null> {
+  if (!("serviceWorker" in navigator)) return null;
+  const reg = await navigator.serviceWorker.getRegistration();
+  const worker = reg?.active ?? (reg && (await navigator.serviceWorker.ready).active);
+  return reg && worker ? { reg, worker } : null;
+}
+
+export function supportsNotificationTriggers(): boolean {
+  return typeof Notification !== "undefined" && "showTrigger" in Notification.prototype;
+}
+
+export async function scheduleReminders(plan: ReminderPlan): Promise<ReminderDelivery> {
+  const sw = await activeWorker();
+  if (!sw) return "page";
+  sw.worker.postMessage({ type: "reminders", plan });
+  if (supportsNotificationTriggers()) return "triggers";
+
+  const periodicSync = (sw.reg as ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager }).periodicSync;
+  if (!periodicSync) return "page";
+  try {
+    if (!plan.enabled) {
+      await periodicSync.unregister(PERIODIC_TAG);
+      return "page";
+    }
+    const perm = await navigator.permissions.query({ name: "periodic-background-sync" as PermissionName });
+    if (perm.state !== "granted") return "page";
+    await periodicSync.register(PERIODIC_TAG, { minInterval: PERIODIC_MIN_INTERVAL_MS });
+    return "periodic";
+  } catch {
+    return "page";
+  }
+}
+
+// Fallback delivery from an open page. With a worker the notification carries the quiz action and is
+// de-duplicated against what periodic sync already showed.
+export async function showDueReminder(title: string, body: string): Promise<void> {
+  const sw = await activeWorker();
+  if (sw) {
+    sw.worker.postMessage({ type: "fire-due" });
+    return;
+  }
+  new Notification(title, { body });
+}
+
+// Immediate notification for the "Test notification" button.
+export async function showTestNotification(title: string, body: string): Promise<void> {
+  const sw = await activeWorker();
+  if (sw) {
+    await sw.reg.showNotification(title, {
+      body,
+      icon: "/icon.svg",
+      actions: [{ action: "quiz", title: `Start ${QUICK_QUIZ_SIZE}-question quiz` }],
+    } as NotificationOptions);
+    return;
+  }
+  new Notification(title, { body });
+}
+
+// Calls back for ?quiz=N in the URL (cold start from a notification) and for messages from the worker
+// when the app was already open. Returns an unsubscribe function.
+export function onQuizRequest(start: (count: number) => void): () => void {
+  const params = new URLSearchParams(window.location.search);
+  const fromUrl = parseInt(params.get("quiz") ?? "", 10);
+  if (fromUrl > 0) {
+    params.delete("quiz");
+    const rest = params.toString();
+    window.history.replaceState(null, "", window.location.pathname + (rest ? `?${rest}` : ""));
+    start(fromUrl);
+  }
+
+  if (!("serviceWorker" in navigator)) return () => {};
+  const listener = (e: MessageEvent) => {
+    if (e.data?.type === "start-quiz") start(e.data.count || QUICK_QUIZ_SIZE);
+  };
+  navigator.serviceWorker.addEventListener("message", listener);
+  return () => navigator.serviceWorker.removeEventListener("message", listener);
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { nextReminderDelayMs, reminderSchedule, type ReminderContext, type ReminderSettings } from "./reminders";
+
+const HOUR = 60 * 60 * 1000;
+
+const settings: ReminderSettings = {
+  reminderEnabled: true,
+  reminderTimes: ["19:30"],
+  reminderDays: [0, 1, 2, 3, 4, 5, 6],
+  reminderMessage: "Theory time.",
+  skipWhenGoalMet: true,
+  streakNudge: false,
+  streakNudgeTime: "21:30",
+  dailyGoal: 10,
+};
+
+const ctx: ReminderContext = { todayCount: 0, streak: 0, dueBy: () => 0 };
+
+describe("nextReminderDelayMs", () => {
+  it("runs in a zone with daylight saving", () => {
+    expect(new Date(2026, 0, 15).getTimezoneOffset()).toBe(0);
+    expect(new Date(2026, 6, 15).getTimezoneOffset()).toBe(-60);
+  });
+
+  it("keeps the wall-clock time across the spring-forward night", () => {
+    const now = new Date(2026, 2, 28, 20, 0); // Sat; clocks go forward early on Sun 29 March
+    const ms = nextReminderDelayMs(settings, now)!;
+    expect(ms).toBe(22.5 * HOUR);
+    const at = new Date(now.getTime() + ms);
+    expect([at.getDate(), at.getHours(), at.getMinutes()]).toEqual([29, 19, 30]);
+  });
+
+  it("keeps the wall-clock time across the fall-back night", () => {
+    const now = new Date(2026, 9, 24, 20, 0); // Sat; clocks go back early on Sun 25 October
+    const ms = nextReminderDelayMs(settings, now)!;
+    expect(ms).toBe(24.5 * HOUR);
+    const at = new Date(now.getTime() + ms);
+    expect([at.getDate(), at.getHours(), at.getMinutes()]).toEqual([25, 19, 30]);
+  });
+
+  it("still fires once when the time does not exist on the spring-forward day", () => {
+    const now = new Date(2026, 2, 28, 20, 0);
+    const ms = nextReminderDelayMs({ ...settings, reminderTimes: ["01:30"] }, now)!;
+    const at = new Date(now.getTime() + ms);
+    expect(at.getDate()).toBe(29);
+    expect(ms).toBeLessThan(7 * HOUR);
+  });
+
+  it("skips days that are not selected", () => {
+    const now = new Date(2026, 9, 19, 20, 0); // Monday evening
+    const ms = nextReminderDelayMs({ ...settings, reminderDays: [3] }, now)!;
+    expect(new Date(now.getTime() + ms).getDay()).toBe(3);
+  });
+
+  it("returns null when no day is selected", () => {
+    expect(nextReminderDelayMs({ ...settings, reminderDays: [] }, new Date(2026, 9, 19, 12, 0))).toBeNull();
+  });
+
+  it("returns null when no time is set", () => {
+    expect(nextReminderDelayMs({ ...settings, reminderTimes: [] }, new Date(2026, 9, 19, 12, 0))).toBeNull();
+  });
+});
+
+describe("reminderSchedule", () => {
+  it("plans one reminder a day at the same local time through a DST change", () => {
+    const entries = reminderSchedule(settings, ctx, new Date(2026, 9, 20, 12, 0), 14);
+    expect(entries).toHaveLength(14);
+    for (const e of entries) {
+      const at = new Date(e.at);
+      expect([at.getHours(), at.getMinutes()]).toEqual([19, 30]);
+    }
+  });
+
+  it("plans nothing when no day is selected", () => {
+    expect(reminderSchedule({ ...settings, reminderDays: [] }, ctx, new Date(2026, 9, 20, 12, 0))).toEqual([]);
+  });
+
+  it("skips today's reminder once the goal is met", () => {
+    const now = new Date(2026, 9, 20, 12, 0);
+    const entries = reminderSchedule(settings, { ...ctx, todayCount: 10 }, now, 2);
+    expect(entries.map((e) => new Date(e.at).getDate())).toEqual([21]); // the 22nd at 19:30 is past the two-day horizon
+  });
+
+  it("nudges about the streak only on selected days", () => {
+    const nudge = { ...settings, reminderTimes: [], streakNudge: true };
+    const streak = { ...ctx, todayCount: 4, streak: 5 };
+    const tuesday = new Date(2026, 9, 20, 12, 0);
+    const entries = reminderSchedule({ ...nudge, reminderDays: [2] }, streak, tuesday);
+    expect(entries.map((e) => [e.kind, new Date(e.at).getHours()])).toEqual([["streak", 21]]);
+    expect(entries[0].body).toContain("Answer 6 more questions");
+    expect(reminderSchedule({ ...nudge, reminderDays: [1, 3] }, streak, tuesday)).toEqual([]);
+    expect(reminderSchedule({ ...nudge, reminderDays: [] }, streak, tuesday)).toEqual([]);
+  });
+
+  it("moves the nudge to tomorrow once today's goal is met, if tomorrow is selected", () => {
+    const nudge = { ...settings, reminderTimes: [], streakNudge: true };
+    const met = { ...ctx, todayCount: 10, streak: 5 };
+    const tuesday = new Date(2026, 9, 20, 12, 0);
+    expect(reminderSchedule({ ...nudge, reminderDays: [3] }, met, tuesday).map((e) => new Date(e.at).getDate())).toEqual([21]);
+    expect(reminderSchedule({ ...nudge, reminderDays: [2] }, met, tuesday)).toEqual([]);
+  });
+
+  it("adds the number of due review cards", () => {
+    const entries = reminderSchedule(settings, { ...ctx, dueBy: () => 3 }, new Date(2026, 9, 20, 12, 0), 1);
+    expect(entries[0].body).toBe("Theory time. 3 review cards are due.");
+  });
+});
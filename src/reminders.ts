@@ -0,0 +1,93 @@
+// Reminder timing: when the next reminder is due and the plan of reminders handed to the service
+// worker. Kept free of React so it can be tested with fixed clocks and time zones.
+
+import { addDays, dayKey } from "./dates";
+import type { ReminderEntry } from "./pwa";
+
+export type ReminderSettings = {
+  reminderEnabled: boolean;
+  reminderTimes: string[]; // "HH:MM", one reminder per entry
+  reminderDays: number[]; // 0=Sun..6=Sat
+  reminderMessage: string;
+  skipWhenGoalMet: boolean;
+  streakNudge: boolean;
+  streakNudgeTime: string; // "HH:MM"
+  dailyGoal: number;
+};
+
+export function parseClock(hhmm: string): [number, number] {
+  const [hh, mm] = hhmm.split(":").map((x) => parseInt(x, 10));
+  return [hh || 0, mm || 0];
+}
+
+// Milliseconds until the next reminder time on an allowed day, or null when no day or time is set.
+// Candidates are built with local setHours, so DST shifts move the gap, not the wall-clock time.
+export function nextReminderDelayMs(settings: ReminderSettings, now = new Date()): number | null {
+  const allowed = new Set(settings.reminderDays);
+  if (!allowed.size || !settings.reminderTimes.length) return null;
+
+  let best: number | null = null;
+  for (const time of settings.reminderTimes) {
+    const [hh, mm] = parseClock(time);
+    const candidate = new Date(now);
+    for (let i = 0; i < 8; i++) {
+      candidate.setHours(hh, mm, 0, 0);
+      if (allowed.has(candidate.getDay()) && candidate.getTime() > now.getTime()) {
+        const ms = candidate.getTime() - now.getTime();
+        if (best === null || ms < best) best = ms;
+        break;
+      }
+      candidate.setDate(candidate.getDate() + 1);
+    }
+  }
+  return best;
+}
+
+export type ReminderContext = {
+  todayCount: number;
+  streak: number; // days in a row meeting the goal, up to yesterday or today
+  dueBy: (day: Date) => number; // spaced-review cards due by the end of that day
+};
+
+export function reminderBody(message: string, due: number): string {
+  if (!due) return message;
+  return `${message} ${due} review card${due === 1 ? " is" : "s are"} due.`;
+}
+
+// Reminders for the coming days as the service worker will show them. Today's entries depend on what
+// has been done today, so callers rebuild the plan after every attempt and post it when it changed.
+export function reminderSchedule(settings: ReminderSettings, ctx: ReminderContext, now = new Date(), days = 14): ReminderEntry[] {
+  if (!settings.reminderEnabled) return [];
+  const horizon = addDays(now, days).getTime();
+  const goalMet = ctx.todayCount >= settings.dailyGoal;
+  const entries: ReminderEntry[] = [];
+
+  for (let from = now; ; ) {
+    const ms = nextReminderDelayMs(settings, from);
+    if (ms === null) break;
+    const at = new Date(from.getTime() + ms);
+    if (at.getTime() > horizon) break;
+    const today = dayKey(at) === dayKey(now);
+    if (!(today && goalMet && settings.skipWhenGoalMet)) {
+      entries.push({ at: at.getTime(), kind: "reminder", body: reminderBody(settings.reminderMessage, ctx.dueBy(at)) });
+    }
+    from = at;
+  }
+
+  // The nudge is only certain for today (streak alive, goal not met) and for tomorrow once today's goal is met.
+  // Like the other reminders it only goes out on the selected days.
+  if (settings.streakNudge) {
+    const [hh, mm] = parseClock(settings.streakNudgeTime);
+    const day = goalMet ? addDays(now, 1) : new Date(now);
+    day.setHours(hh, mm, 0, 0);
+    const left = goalMet ? settings.dailyGoal : settings.dailyGoal - ctx.todayCount;
+    if (ctx.streak > 0 && day.getTime() > now.getTime() && settings.reminderDays.includes(day.getDay())) {
+      entries.push({
+        at: day.getTime(),
+        kind: "streak",
+        body: `Your ${ctx.streak}-day streak is at risk. Answer ${left} more question${left === 1 ? "" : "s"} today to keep it going.`,
+      });
+    }
+  }
+  return entries.sort((a, b) => a.at - b.at);
+}
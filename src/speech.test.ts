@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  audioAction,
+  parseSpokenOption,
+  parseVoiceCommand,
+  playAudioQuestion,
+  type AudioPhase,
+  type AudioQuestion,
+  type AudioRun,
+  type SpeechLayer,
+} from "./speech";
+
+function stubSpeech() {
+  const spoken: string[] = [];
+  const speech: SpeechLayer = {
+    canSpeak: true,
+    canListen: true,
+    speak: vi.fn(async (text: string) => {
+      spoken.push(text);
+    }),
+    cancel: vi.fn(),
+    listen: vi.fn(() => () => {}),
+    mediaKeys: vi.fn(() => () => {}),
+  };
+  return { speech, spoken };
+}
+
+const open: AudioQuestion = { prompt: "What does Chon-Ji mean?", answer: "Heaven and Earth.", style: "selfMark", pauseMs: 5000 };
+
+describe("playAudioQuestion", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reads the prompt, pauses, reads the answer and waits for a mark", async () => {
+    const { speech, spoken } = stubSpeech();
+    const phases: AudioPhase[] = [];
+    const done = playAudioQuestion(speech, open, (p) => phases.push(p), { cancelled: false });
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(spoken).toEqual(["What does Chon-Ji mean?"]);
+    expect(phases).toEqual(["prompt", "thinking"]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await done;
+    expect(spoken).toEqual(["What does Chon-Ji mean?", "The answer: Heaven and Earth."]);
+    expect(phases).toEqual(["prompt", "thinking", "answer", "marking"]);
+  });
+
+  it("skips the rest of the pause on request", async () => {
+    const { speech, spoken } = stubSpeech();
+    const run: AudioRun = { cancelled: false };
+    const done = playAudioQuestion(speech, open, () => {}, run);
+    await vi.advanceTimersByTimeAsync(100);
+    run.skip?.();
+    await done;
+    expect(spoken).toHaveLength(2);
+  });
+
+  it("stops when cancelled during the pause", async () => {
+    const { speech, spoken } = stubSpeech();
+    const phases: AudioPhase[] = [];
+    const run: AudioRun = { cancelled: false };
+    const done = playAudioQuestion(speech, open, (p) => phases.push(p), run);
+    await vi.advanceTimersByTimeAsync(100);
+    run.cancelled = true;
+    run.skip?.();
+    await done;
+    expect(spoken).toEqual(["What does Chon-Ji mean?"]);
+    expect(phases).toEqual(["prompt", "thinking"]);
+  });
+
+  it("waits for a spoken option without reading the answer", async () => {
+    const { speech, spoken } = stubSpeech();
+    const phases: AudioPhase[] = [];
+    await playAudioQuestion(speech, { ...open, style: "options" }, (p) => phases.push(p), { cancelled: false });
+    expect(spoken).toEqual(["What does Chon-Ji mean?"]);
+    expect(phases).toEqual(["prompt", "choosing"]);
+  });
+
+  it("sends typed and list answers to the screen", async () => {
+    const { speech, spoken } = stubSpeech();
+    const phases: AudioPhase[] = [];
+    await playAudioQuestion(speech, { ...open, style: "onScreen" }, (p) => phases.push(p), { cancelled: false });
+    expect(spoken).toEqual(["What does Chon-Ji mean?", "Answer this one on screen."]);
+    expect(phases).toEqual(["prompt", "onScreen"]);
+  });
+});
+
+describe("audioAction", () => {
+  it("ignores mark words while the student is answering", () => {
+    expect(audioAction("thinking", false, { said: "no, it is right" })).toBeNull();
+    expect(audioAction("thinking", false, { key: "correct" })).toBeNull();
+    expect(audioAction("thinking", false, { said: "answer" })).toEqual({ kind: "answer" });
+  });
+
+  it("takes marks once the model answer has been read", () => {
+    expect(audioAction("marking", false, { said: "correct" })).toEqual({ kind: "mark", correct: true });
+    expect(audioAction("marking", false, { said: "that's incorrect" })).toEqual({ kind: "mark", correct: false });
+    expect(audioAction("marking", false, { key: "missed" })).toEqual({ kind: "mark", correct: false });
+  });
+
+  it("never self-marks a graded or on-screen question", () => {
+    expect(audioAction("onScreen", false, { said: "correct" })).toBeNull();
+    expect(audioAction("onScreen", true, { said: "next" })).toEqual({ kind: "next" });
+    expect(audioAction("marking", true, { key: "correct" })).toEqual({ kind: "next" });
+  });
+
+  it("picks a spoken option", () => {
+    const options = ["28", "29", "30", "24"];
+    expect(audioAction("choosing", false, { said: "29" }, options)).toEqual({ kind: "pick", index: 1 });
+    expect(audioAction("choosing", false, { said: "option four" }, options)).toEqual({ kind: "pick", index: 3 });
+    expect(audioAction("choosing", false, { said: "correct" }, options)).toBeNull();
+  });
+
+  it("stops and repeats in any phase", () => {
+    expect(audioAction("prompt", false, { said: "stop" })).toEqual({ kind: "stop" });
+    expect(audioAction("choosing", false, { key: "repeat" })).toEqual({ kind: "repeat" });
+  });
+});
+
+describe("spoken input", () => {
+  it("reads whole words", () => {
+    expect(parseVoiceCommand("Incorrect.")).toBe("missed");
+    expect(parseVoiceCommand("got it")).toBe("correct");
+    expect(parseVoiceCommand("banana")).toBeNull();
+  });
+
+  it("prefers option text over option numbers", () => {
+    expect(parseSpokenOption("28", ["24", "28"])).toBe(1);
+    expect(parseSpokenOption("two", ["24", "28"])).toBe(1);
+    expect(parseSpokenOption("false", ["True", "False"])).toBe(1);
+    expect(parseSpokenOption("five", ["a", "b"])).toBeNull();
+  });
+});
@@ -0,0 +1,309 @@
+// Speech for the hands-free audio drill: reading questions aloud, voice marking and hardware media
+// keys. The app only talks to SpeechLayer, so tests can pass a stub instead of the browser APIs.
+
+export type VoiceCommand = "correct" | "missed" | "next" | "repeat" | "answer" | "stop";
+
+export interface SpeechLayer {
+  canSpeak: boolean;
+  canListen: boolean;
+  speak(text: string): Promise<void>; // resolves when finished or cancelled; listening pauses meanwhile
+  cancel(): void;
+  listen(onHeard: (transcript: string) => void): () => void; // returns a function that stops listening
+  mediaKeys(onCommand: (command: VoiceCommand) => void): () => void;
+}
+
+// Checked in order on whole words, so "incorrect" is a miss rather than "correct".
+const COMMAND_WORDS: [VoiceCommand, string[]][] = [
+  ["missed", ["missed", "miss", "wrong", "incorrect", "no"]],
+  ["correct", ["correct", "right", "got it", "yes"]],
+  ["next", ["next", "continue"]],
+  ["repeat", ["repeat", "again"]],
+  ["answer", ["answer", "show me"]],
+  ["stop", ["stop"]],
+];
+
+function normalizeSpoken(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+export function parseVoiceCommand(transcript: string): VoiceCommand | null {
+  const said = ` ${normalizeSpoken(transcript)} `;
+  for (const [command, words] of COMMAND_WORDS) {
+    if (words.some((w) => said.includes(` ${w} `))) return command;
+  }
+  return null;
+}
+
+const OPTION_NUMBERS = [
+  ["1", "one", "first"],
+  ["2", "two", "second"],
+  ["3", "three", "third"],
+  ["4", "four", "fourth"],
+  ["5", "five", "fifth"],
+  ["6", "six", "sixth"],
+];
+
+// Index of the option the student said: its text ("Do-San", "28", "true"), or its number as read
+// out ("option two", "number 2", "two"). Text wins, so "28" picks the option 28 rather than option 2.
+export function parseSpokenOption(transcript: string, options: string[]): number | null {
+  const said = normalizeSpoken(transcript);
+  let best = -1;
+  let bestLength = 0;
+  let tied = false;
+  for (let i = 0; i < options.length; i++) {
+    const text = normalizeSpoken(options[i]);
+    if (!text || !` ${said} `.includes(` ${text} `)) continue;
+    if (text.length > bestLength) [best, bestLength, tied] = [i, text.length, false];
+    else if (text.length === bestLength) tied = true;
+  }
+  if (best >= 0) return tied ? null : best;
+
+  const number = said.replace(/^(option|number|answer) /, "");
+  const index = OPTION_NUMBERS.findIndex((words) => words.includes(number));
+  return index >= 0 && index < options.length ? index : null;
+}
+
+// The audio drill, independent of React so it can run against a stub SpeechLayer.
+
+// How a question is answered in the drill: a spoken self-mark (open questions when self-marking),
+// a spoken option (choice, true/false), or on screen (typed and list answers are graded, not self-marked).
+export type AudioStyle = "selfMark" | "options" | "onScreen";
+
+export type AudioPhase = "prompt" | "thinking" | "choosing" | "answer" | "marking" | "onScreen";
+
+export type AudioQuestion = { prompt: string; answer: string; style: AudioStyle; pauseMs: number };
+
+export type AudioRun = { cancelled: boolean; skip?: () => void };
+
+export type AudioAction =
+  | { kind: "mark"; correct: boolean }
+  | { kind: "pick"; index: number }
+  | { kind: "next" }
+  | { kind: "repeat" }
+  | { kind: "answer" }
+  | { kind: "stop" };
+
+// Reads one question and leaves the drill in the phase where it waits for the student.
+export async function playAudioQuestion(
+  speech: SpeechLayer,
+  q: AudioQuestion,
+  setPhase: (phase: AudioPhase) => void,
+  run: AudioRun
+): Promise<void> {
+  setPhase("prompt");
+  await speech.speak(q.prompt);
+  if (run.cancelled) return;
+  if (q.style === "options") {
+    setPhase("choosing");
+    return;
+  }
+  if (q.style === "onScreen") {
+    await speech.speak("Answer this one on screen.");
+    if (!run.cancelled) setPhase("onScreen");
+    return;
+  }
+  setPhase("thinking");
+  await new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, q.pauseMs);
+    run.skip = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+  run.skip = undefined;
+  if (run.cancelled) return;
+  setPhase("answer");
+  await speech.speak(`The answer: ${q.answer}`);
+  if (!run.cancelled) setPhase("marking");
+}
+
+// What a spoken phrase or media key means in the current phase. Marks only count once the model
+// answer has been read, so words in the student's own answer ("no", "right") don't mark it.
+export function audioAction(
+  phase: AudioPhase,
+  graded: boolean,
+  input: { said: string } | { key: VoiceCommand },
+  options: string[] = []
+): AudioAction | null {
+  if (phase === "choosing" && !graded && "said" in input) {
+    const index = parseSpokenOption(input.said, options);
+    if (index !== null) return { kind: "pick", index };
+  }
+  const command = "key" in input ? input.key : parseVoiceCommand(input.said);
+  if (command === "stop") return { kind: "stop" };
+  if (command === "repeat") return { kind: "repeat" };
+  if (phase === "thinking") return command === "answer" ? { kind: "answer" } : null;
+  if (phase !== "marking" && phase !== "onScreen" && phase !== "choosing") return null;
+  // Answered (a spoken or tapped option, a typed or ticked answer): any of these moves on.
+  if (graded) return command === "next" || command === "correct" || command === "missed" ? { kind: "next" } : null;
+  if (phase === "marking" && (command === "correct" || command === "missed")) return { kind: "mark", correct: command === "correct" };
+  return null;
+}
+
+// Not in the TypeScript DOM lib.
+type Recognition = {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onstart: (() => void) | null;
+  onresult: ((e: { resultIndex: number; results: ArrayLike<ArrayLike<{ transcript: string }>> }) => void) | null;
+  onend: (() => void) | null;
+  onerror: ((e: { error: string }) => void) | null;
+  start(): void;
+  stop(): void;
+};
+type RecognitionConstructor = new () => Recognition;
+
+function recognitionConstructor(): RecognitionConstructor | undefined {
+  const w = window as unknown as { SpeechRecognition?: RecognitionConstructor; webkitSpeechRecognition?: RecognitionConstructor };
+  return w.SpeechRecognition ?? w.webkitSpeechRecognition;
+}
+
+// Media Session handlers only fire while the page is playing media, so a silent clip loops while
+// the drill runs.
+function silentWavUrl(): string {
+  const rate = 8000;
+  const bytes = new Uint8Array(44 + rate);
+  const view = new DataView(bytes.buffer);
+  const ascii = (at: number, s: string) => [...s].forEach((c, i) => view.setUint8(at + i, c.charCodeAt(0)));
+  ascii(0, "RIFF");
+  view.setUint32(4, 36 + rate, true);
+  ascii(8, "WAVEfmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, rate, true);
+  view.setUint32(28, rate, true);
+  view.setUint16(32, 1, true);
+  view.setUint16(34, 8, true);
+  ascii(36, "data");
+  view.setUint32(40, rate, true);
+  bytes.fill(128, 44); // 8-bit silence
+  return URL.createObjectURL(new Blob([bytes], { type: "audio/wav" }));
+}
+
+const MEDIA_ACTIONS: [MediaSessionAction, VoiceCommand][] = [
+  ["nexttrack", "correct"],
+  ["previoustrack", "missed"],
+  ["play", "repeat"],
+  ["pause", "repeat"],
+];
+
+const MEDIA_KEYS: Record<string, VoiceCommand> = {
+  MediaTrackNext: "correct",
+  MediaTrackPrevious: "missed",
+  MediaPlayPause: "repeat",
+};
+
+export function browserSpeech(lang = "en-GB"): SpeechLayer {
+  const synth = typeof speechSynthesis === "undefined" ? null : speechSynthesis;
+  const Recognizer = typeof window === "undefined" ? undefined : recognitionConstructor();
+
+  // The recognizer would hear the app's own voice, so it is stopped while speaking and restarted after.
+  let listener: { rec: Recognition; active: boolean; running: boolean } | null = null;
+  let speaking = 0;
+  const resume = () => {
+    if (speaking || !listener?.active || listener.running) return;
+    try {
+      listener.rec.start();
+    } catch {
+      // still stopping; onend restarts it
+    }
+  };
+
+  return {
+    canSpeak: !!synth,
+    canListen: !!Recognizer,
+
+    speak(text) {
+      if (!synth) return Promise.resolve();
+      speaking++;
+      if (listener?.running) listener.rec.stop();
+      return new Promise<void>((resolve) => {
+        const u = new SpeechSynthesisUtterance(text);
+        u.lang = lang;
+        u.onend = () => resolve();
+        u.onerror = () => resolve();
+        synth.speak(u);
+      }).then(() => {
+        speaking--;
+        resume();
+      });
+    },
+
+    cancel() {
+      synth?.cancel();
+    },
+
+    listen(onHeard) {
+      if (!Recognizer) return () => {};
+      const rec = new Recognizer();
+      rec.lang = lang;
+      rec.continuous = true;
+      rec.interimResults = false;
+      const current = { rec, active: true, running: false };
+      listener = current;
+      rec.onstart = () => {
+        current.running = true;
+      };
+      rec.onresult = (e) => {
+        if (speaking) return;
+        for (let i = e.resultIndex; i < e.results.length; i++) onHeard(e.results[i][0].transcript);
+      };
+      // Recognition also stops by itself after a stretch of silence; keep it going until told to stop.
+      rec.onend = () => {
+        current.running = false;
+        if (listener === current) resume();
+      };
+      rec.onerror = (e) => {
+        if (e.error === "not-allowed" || e.error === "service-not-allowed") current.active = false;
+      };
+      resume();
+      return () => {
+        current.active = false;
+        if (listener === current) listener = null;
+        rec.stop();
+      };
+    },
+
+    mediaKeys(onCommand) {
+      const onKey = (e: KeyboardEvent) => {
+        const command = MEDIA_KEYS[e.key];
+        if (!command) return;
+        e.preventDefault();
+        onCommand(command);
+      };
+      window.addEventListener("keydown", onKey);
+
+      const session = "mediaSession" in navigator ? navigator.mediaSession : null;
+      const url = session ? silentWavUrl() : "";
+      const audio = session ? new Audio(url) : null;
+      if (session && audio) {
+        audio.loop = true;
+        audio.play().catch(() => {});
+        session.metadata = new MediaMetadata({ title: "Audio drill", artist: "ITF Theory Mock Test" });
+        for (const [action, command] of MEDIA_ACTIONS) {
+          try {
+            session.setActionHandler(action, () => onCommand(command));
+          } catch {
+            // action not supported by this browser
+          }
+        }
+      }
+
+      return () => {
+        window.removeEventListener("keydown", onKey);
+        if (!session || !audio) return;
+        for (const [action] of MEDIA_ACTIONS) {
+          try {
+            session.setActionHandler(action, null);
+          } catch {
+            // action not supported by this browser
+          }
+        }
+        audio.pause();
+        URL.revokeObjectURL(url);
+      };
+    },
+  };
+}
@@ -0,0 +1,155 @@
+import { IDBFactory, IDBKeyRange } from "fake-indexeddb";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_PROFILE_ID, LS_KEYS, STORE_KEYS, openStore, profileKey, type HistoryRecord } from "./storage";
+
+// Node has no localStorage; this keeps the parts of the Storage API the store uses.
+class MemoryStorage {
+  private items = new Map<string, string>();
+  get length() {
+    return this.items.size;
+  }
+  key(i: number) {
+    return [...this.items.keys()][i] ?? null;
+  }
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value));
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+type Row = HistoryRecord & { qid: string };
+
+const row = (id: string, at: string, profileId?: string): Row => ({ id, at, qid: `q_${id}`, ...(profileId && { profileId }) });
+
+// The v1 schema as the first IndexedDB release left it: documents in "kv" without a profile, history rows
+// without a profileId.
+function createV1Database(kv: Record<string, unknown>, history: Row[]): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open("itf-theory", 1);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      const kvStore = db.createObjectStore("kv");
+      for (const [key, value] of Object.entries(kv)) kvStore.put(value, key);
+      const historyStore = db.createObjectStore("history", { keyPath: "id" });
+      historyStore.createIndex("at", "at");
+      for (const h of history) historyStore.put(h);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+beforeEach(() => {
+  vi.stubGlobal("indexedDB", new IDBFactory());
+  vi.stubGlobal("IDBKeyRange", IDBKeyRange);
+  vi.stubGlobal("localStorage", new MemoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("IndexedDB migrations", () => {
+  it("imports the localStorage data into the default profile on first open", async () => {
+    localStorage.setItem(LS_KEYS.SETTINGS, JSON.stringify({ dailyGoal: 7 }));
+    localStorage.setItem(LS_KEYS.SCHEDULE, JSON.stringify({ q_a: { due: "2026-10-20" } }));
+    localStorage.setItem(LS_KEYS.BANK, JSON.stringify([{ id: "q_a" }]));
+    localStorage.setItem(LS_KEYS.HISTORY, JSON.stringify([row("h1", "2026-10-01T10:00:00Z"), row("h2", "2026-10-02T10:00:00Z")]));
+
+    const store = await openStore<Row>();
+    expect(store.kind).toBe("indexeddb");
+    expect(await store.get(profileKey(STORE_KEYS.SETTINGS, DEFAULT_PROFILE_ID))).toEqual({ dailyGoal: 7 });
+    expect(await store.get(profileKey(STORE_KEYS.SCHEDULE, DEFAULT_PROFILE_ID))).toEqual({ q_a: { due: "2026-10-20" } });
+    expect(await store.get(STORE_KEYS.BANK)).toEqual([{ id: "q_a" }]);
+    const history = await store.loadHistory(DEFAULT_PROFILE_ID);
+    expect(history.map((h) => [h.id, h.profileId])).toEqual([
+      ["h2", DEFAULT_PROFILE_ID],
+      ["h1", DEFAULT_PROFILE_ID],
+    ]);
+    // The old keys stay as a fallback copy.
+    expect(localStorage.getItem(LS_KEYS.SETTINGS)).not.toBeNull();
+  });
+
+  it("moves v1 documents and history into the default profile", async () => {
+    const db = await createV1Database(
+      { settings: { dailyGoal: 3 }, sessions: [{ id: "s1" }], blueprints: [{ id: "bp" }] },
+      [row("h1", "2026-10-01T10:00:00Z"), row("h2", "2026-10-03T10:00:00Z")]
+    );
+    db.close();
+
+    const store = await openStore<Row>();
+    expect(await store.get(STORE_KEYS.SETTINGS)).toBeUndefined();
+    expect(await store.get(profileKey(STORE_KEYS.SETTINGS, DEFAULT_PROFILE_ID))).toEqual({ dailyGoal: 3 });
+    expect(await store.get(profileKey(STORE_KEYS.SESSIONS, DEFAULT_PROFILE_ID))).toEqual([{ id: "s1" }]);
+    expect(await store.get(STORE_KEYS.BLUEPRINTS)).toEqual([{ id: "bp" }]); // shared, stays put
+    expect(await store.get(STORE_KEYS.ACTIVE_PROFILE)).toBe(DEFAULT_PROFILE_ID);
+    expect(await store.get(STORE_KEYS.PROFILES)).toEqual([expect.objectContaining({ id: DEFAULT_PROFILE_ID })]);
+    expect((await store.loadHistory(DEFAULT_PROFILE_ID)).map((h) => h.id)).toEqual(["h2", "h1"]);
+    expect(await store.loadHistory("other")).toEqual([]);
+  });
+
+  it("waits for a tab holding the old version instead of falling back", async () => {
+    const oldTab = await createV1Database({}, [row("h1", "2026-10-01T10:00:00Z")]);
+    const blocked = vi.fn(() => oldTab.close());
+    const fallback = vi.fn();
+
+    const store = await openStore<Row>({ blocked, fallback });
+    expect(blocked).toHaveBeenCalled();
+    expect(fallback).not.toHaveBeenCalled();
+    expect(store.kind).toBe("indexeddb");
+    expect((await store.loadHistory(DEFAULT_PROFILE_ID)).map((h) => h.id)).toEqual(["h1"]);
+  });
+});
+
+describe("localStorage fallback", () => {
+  beforeEach(() => {
+    vi.stubGlobal("indexedDB", undefined);
+  });
+
+  it("keeps the default profile on the original keys and suffixes the others", async () => {
+    const store = await openStore<Row>();
+    expect(store.kind).toBe("localStorage");
+    await store.set(profileKey(STORE_KEYS.SETTINGS, DEFAULT_PROFILE_ID), { dailyGoal: 5 });
+    await store.set(profileKey(STORE_KEYS.SETTINGS, "p2"), { dailyGoal: 9 });
+    expect(JSON.parse(localStorage.getItem(LS_KEYS.SETTINGS)!)).toEqual({ dailyGoal: 5 });
+    expect(JSON.parse(localStorage.getItem(`${LS_KEYS.SETTINGS}:p2`)!)).toEqual({ dailyGoal: 9 });
+    expect(await store.get(profileKey(STORE_KEYS.SETTINGS, "p2"))).toEqual({ dailyGoal: 9 });
+  });
+
+  it("merges history by id per profile, newest first", async () => {
+    localStorage.setItem(LS_KEYS.HISTORY, JSON.stringify([row("h1", "2026-10-01T10:00:00Z")]));
+    const store = await openStore<Row>();
+    await store.putHistory([
+      { ...row("h1", "2026-10-01T10:00:00Z", DEFAULT_PROFILE_ID), qid: "q_changed" },
+      row("h2", "2026-10-05T10:00:00Z", DEFAULT_PROFILE_ID),
+      row("h3", "2026-10-04T10:00:00Z", "p2"),
+    ]);
+    const mine = await store.loadHistory(DEFAULT_PROFILE_ID);
+    expect(mine.map((h) => [h.id, h.qid])).toEqual([
+      ["h2", "q_h2"],
+      ["h1", "q_changed"],
+    ]);
+    expect((await store.loadHistory("p2")).map((h) => h.id)).toEqual(["h3"]);
+    expect(await store.historyOwners(["h1", "h3", "missing"])).toEqual(
+      new Map([
+        ["h1", DEFAULT_PROFILE_ID],
+        ["h3", "p2"],
+      ])
+    );
+  });
+
+  it("removes only the deleted profile's data", async () => {
+    const store = await openStore<Row>();
+    await store.putHistory([row("h1", "2026-10-01T10:00:00Z", DEFAULT_PROFILE_ID), row("h2", "2026-10-02T10:00:00Z", "p2")]);
+    await store.set(profileKey(STORE_KEYS.SCHEDULE, "p2"), { q_a: {} });
+    await store.removeProfile("p2");
+    expect(await store.loadHistory("p2")).toEqual([]);
+    expect(await store.get(profileKey(STORE_KEYS.SCHEDULE, "p2"))).toBeUndefined();
+    expect((await store.loadHistory(DEFAULT_PROFILE_ID)).map((h) => h.id)).toEqual(["h1"]);
+  });
+});
@@ -0,0 +1,305 @@
+// Persistence for the app. Data lives in IndexedDB with explicit schema versions; where
+// IndexedDB is unavailable (some private modes, old WebViews) the same interface falls
+// back to the original localStorage keys.
+
+// Keys used before the IndexedDB store existed. Still read once by the v1 migration and
+// by the localStorage fallback; IndexedDB never writes to them.
+export const LS_KEYS = {
+  BANK: "itf_bank_v2",
+  HISTORY: "itf_history_v2",
+  SETTINGS: "itf_settings_v2",
+  SCHEDULE: "itf_schedule_v2",
+  SESSIONS: "itf_exam_sessions_v2",
+  BLUEPRINTS: "itf_blueprints_v2",
+} as const;
+
+export const STORE_KEYS = {
+  BANK: "bank",
+  SETTINGS: "settings",
+  SCHEDULE: "schedule",
+  SESSIONS: "sessions",
+  BLUEPRINTS: "blueprints",
+  PROFILES: "profiles",
+  ACTIVE_PROFILE: "activeProfile",
+} as const;
+
+export type StoreKey = (typeof STORE_KEYS)[keyof typeof STORE_KEYS];
+
+// Per-student documents are stored as "<key>:<profileId>"; the bank and blueprints are shared.
+const PROFILE_SCOPED: StoreKey[] = [STORE_KEYS.SETTINGS, STORE_KEYS.SCHEDULE, STORE_KEYS.SESSIONS];
+
+export const DEFAULT_PROFILE_ID = "default";
+export const DEFAULT_PROFILE_NAME = "Me"; // placeholder until the student renames the profile
+
+export function profileKey(key: StoreKey, profileId: string): string {
+  return `${key}:${profileId}`;
+}
+
+const LEGACY_KEY: Record<string, string> = {
+  bank: LS_KEYS.BANK,
+  history: LS_KEYS.HISTORY,
+  settings: LS_KEYS.SETTINGS,
+  schedule: LS_KEYS.SCHEDULE,
+  sessions: LS_KEYS.SESSIONS,
+  blueprints: LS_KEYS.BLUEPRINTS,
+};
+
+export type HistoryRecord = { id: string; at: string; profileId?: string };
+
+export interface AppStore<H extends HistoryRecord = HistoryRecord> {
+  kind: "indexeddb" | "localStorage";
+  get<T>(key: string): Promise<T | undefined>;
+  set(key: string, value: unknown): Promise<void>;
+  loadHistory(profileId: string): Promise<H[]>; // newest first
+  putHistory(entries: H[]): Promise<void>; // insert or overwrite by id
+  replaceHistory(profileId: string, entries: H[]): Promise<void>;
+  historyOwners(ids: string[]): Promise<Map<string, string>>; // history id -> profile that holds it, across all profiles
+  removeProfile(profileId: string): Promise<void>; // history and per-profile documents
+}
+
+export function loadJSON<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return fallback;
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveJSON(key: string, value: unknown): void {
+  localStorage.setItem(key, JSON.stringify(value));
+}
+
+// Failed reads and writes go to the page's listener, which shows them to the student.
+let storageErrorListener: ((message: string) => void) | null = null;
+
+export function onStorageError(listener: (message: string) => void): () => void {
+  storageErrorListener = listener;
+  return () => {
+    if (storageErrorListener === listener) storageErrorListener = null;
+  };
+}
+
+export function reportStorageError(e: unknown): void {
+  storageErrorListener?.(`Could not save your changes: ${(e as Error)?.message || String(e)}`);
+}
+
+// IndexedDB
+
+const DB_NAME = "itf-theory";
+export const DB_VERSION = 2;
+
+const KV = "kv";
+const HISTORY = "history";
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// Each entry upgrades the schema from version n - 1 to n and runs inside the upgrade transaction.
+const MIGRATIONS: Record<number, Migration> = {
+  1: (db, tx) => {
+    db.createObjectStore(KV);
+    const history = db.createObjectStore(HISTORY, { keyPath: "id" });
+    history.createIndex("at", "at");
+    importLegacyLocalStorage(tx);
+  },
+  // v2: profiles. Existing data becomes the default profile's, history rows gain a profileId.
+  2: (_db, tx) => {
+    const kv = tx.objectStore(KV);
+    for (const key of PROFILE_SCOPED) {
+      const req = kv.get(key);
+      req.onsuccess = () => {
+        if (req.result === undefined) return;
+        kv.put(req.result, profileKey(key, DEFAULT_PROFILE_ID));
+        kv.delete(key);
+      };
+    }
+    kv.put([{ id: DEFAULT_PROFILE_ID, name: DEFAULT_PROFILE_NAME, createdAt: new Date().toISOString() }], STORE_KEYS.PROFILES);
+    kv.put(DEFAULT_PROFILE_ID, STORE_KEYS.ACTIVE_PROFILE);
+
+    const history = tx.objectStore(HISTORY);
+    history.createIndex("profile_at", ["profileId", "at"]);
+    const cursorReq = history.openCursor();
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) return;
+      if (!cursor.value.profileId) cursor.update({ ...cursor.value, profileId: DEFAULT_PROFILE_ID });
+      cursor.continue();
+    };
+  },
+};
+
+// One-time copy of the v2 localStorage data. The old keys are left in place as a fallback copy.
+function importLegacyLocalStorage(tx: IDBTransaction): void {
+  const kv = tx.objectStore(KV);
+  for (const [key, lsKey] of Object.entries(LEGACY_KEY)) {
+    if (lsKey === LS_KEYS.HISTORY) continue;
+    const value = loadJSON<unknown>(lsKey, undefined);
+    if (value !== undefined) kv.put(value, key);
+  }
+  const history = tx.objectStore(HISTORY);
+  for (const entry of loadJSON<HistoryRecord[]>(LS_KEYS.HISTORY, [])) {
+    if (entry && typeof entry.id === "string") history.put(entry);
+  }
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// While another tab holds an older version open the upgrade waits; `onBlocked` lets the page ask the
+// student to close it, and the open completes once they do.
+function openDatabase(onBlocked: () => void): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (e) => {
+      const tx = req.transaction;
+      if (!tx) return;
+      for (let v = e.oldVersion + 1; v <= DB_VERSION; v++) MIGRATIONS[v]?.(req.result, tx);
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // Step aside when a newer version of the app opens in another tab, rather than blocking it.
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    req.onerror = () => reject(req.error);
+    req.onblocked = onBlocked;
+  });
+}
+
+function profileRange(profileId: string): IDBKeyRange {
+  return IDBKeyRange.bound([profileId, ""], [profileId, "\uffff"]);
+}
+
+function indexedDbStore<H extends HistoryRecord>(db: IDBDatabase): AppStore<H> {
+  return {
+    kind: "indexeddb",
+    async get<T>(key: string) {
+      return (await request(db.transaction(KV).objectStore(KV).get(key))) as T | undefined;
+    },
+    async set(key, value) {
+      const tx = db.transaction(KV, "readwrite");
+      tx.objectStore(KV).put(value, key);
+      await done(tx);
+    },
+    async loadHistory(profileId) {
+      const index = db.transaction(HISTORY).objectStore(HISTORY).index("profile_at");
+      const rows = (await request(index.getAll(profileRange(profileId)))) as H[];
+      return rows.reverse();
+    },
+    async putHistory(entries) {
+      const tx = db.transaction(HISTORY, "readwrite");
+      const store = tx.objectStore(HISTORY);
+      for (const e of entries) store.put(e);
+      await done(tx);
+    },
+    async replaceHistory(profileId, entries) {
+      const tx = db.transaction(HISTORY, "readwrite");
+      const store = tx.objectStore(HISTORY);
+      const keys = store.index("profile_at").getAllKeys(profileRange(profileId));
+      keys.onsuccess = () => {
+        for (const key of keys.result) store.delete(key);
+        for (const e of entries) store.put({ ...e, profileId });
+      };
+      await done(tx);
+    },
+    async historyOwners(ids) {
+      const store = db.transaction(HISTORY).objectStore(HISTORY);
+      const rows = (await Promise.all(ids.map((id) => request(store.get(id))))) as (H | undefined)[];
+      const owners = new Map<string, string>();
+      for (const r of rows) if (r) owners.set(r.id, r.profileId ?? DEFAULT_PROFILE_ID);
+      return owners;
+    },
+    async removeProfile(profileId) {
+      const tx = db.transaction([HISTORY, KV], "readwrite");
+      const history = tx.objectStore(HISTORY);
+      const keys = history.index("profile_at").getAllKeys(profileRange(profileId));
+      keys.onsuccess = () => keys.result.forEach((key) => history.delete(key));
+      for (const key of PROFILE_SCOPED) tx.objectStore(KV).delete(profileKey(key, profileId));
+      await done(tx);
+    },
+  };
+}
+
+// localStorage fallback. The default profile keeps the original v2 keys; other profiles append ":<id>".
+
+function lsKey(key: string): string {
+  const [base, profileId] = key.split(":");
+  const legacy = LEGACY_KEY[base] ?? `itf_${base}_v2`;
+  return profileId && profileId !== DEFAULT_PROFILE_ID ? `${legacy}:${profileId}` : legacy;
+}
+
+function localStorageStore<H extends HistoryRecord>(): AppStore<H> {
+  const historyKey = (profileId: string) => lsKey(`history:${profileId}`);
+  return {
+    kind: "localStorage",
+    async get<T>(key: string) {
+      return loadJSON<T | undefined>(lsKey(key), undefined);
+    },
+    async set(key, value) {
+      saveJSON(lsKey(key), value);
+    },
+    async loadHistory(profileId) {
+      return loadJSON<H[]>(historyKey(profileId), []);
+    },
+    async putHistory(entries) {
+      const byProfile = new Map<string, H[]>();
+      for (const e of entries) {
+        const pid = e.profileId ?? DEFAULT_PROFILE_ID;
+        byProfile.set(pid, [...(byProfile.get(pid) ?? []), e]);
+      }
+      for (const [pid, added] of byProfile) {
+        const ids = new Set(added.map((e) => e.id));
+        const rest = loadJSON<H[]>(historyKey(pid), []).filter((e) => !ids.has(e.id));
+        const next = [...added, ...rest].sort((a, b) => Date.parse(b.at) - Date.parse(a.at));
+        saveJSON(historyKey(pid), next);
+      }
+    },
+    async replaceHistory(profileId, entries) {
+      saveJSON(historyKey(profileId), entries);
+    },
+    async historyOwners(ids) {
+      const wanted = new Set(ids);
+      const owners = new Map<string, string>();
+      const base = historyKey(DEFAULT_PROFILE_ID);
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key || (key !== base && !key.startsWith(`${base}:`))) continue;
+        const pid = key === base ? DEFAULT_PROFILE_ID : key.slice(base.length + 1);
+        for (const e of loadJSON<H[]>(key, [])) if (wanted.has(e.id)) owners.set(e.id, pid);
+      }
+      return owners;
+    },
+    async removeProfile(profileId) {
+      localStorage.removeItem(historyKey(profileId));
+      for (const key of PROFILE_SCOPED) localStorage.removeItem(lsKey(profileKey(key, profileId)));
+    },
+  };
+}
+
+export type OpenEvents = {
+  blocked?: () => void; // waiting for other tabs to close
+  fallback?: (e: unknown) => void; // IndexedDB failed to open; using localStorage instead
+};
+
+export async function openStore<H extends HistoryRecord>(events: OpenEvents = {}): Promise<AppStore<H>> {
+  if (typeof indexedDB === "undefined") return localStorageStore<H>();
+  try {
+    return indexedDbStore<H>(await openDatabase(() => events.blocked?.()));
+  } catch (e) {
+    events.fallback?.(e);
+    return localStorageStore<H>();
+  }
+}
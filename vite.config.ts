@@ -1,7 +1,12 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  test: {
+    // Reminder tests pin a zone with daylight saving so the DST cases are real.
+    env: { TZ: 'Europe/London' },
+  },
 })